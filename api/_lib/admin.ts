@@ -0,0 +1,115 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { normalizeAddress } from "../../src/lib/address.js";
+import { isTier, sortTiers, type Tier } from "../../src/lib/tiers.js";
+import { readHeader, type ApiRequest } from "./http.js";
+import type { AllowlistEntry, BlockEntry } from "./storage/index.js";
+
+const MAX_REASON_LENGTH = 200;
+const DEFAULT_ALLOCATION = 1;
+const DEFAULT_TIERS: Tier[] = ["base"];
+
+/** An admin upsert item. `allocation` and `tiers` are null when the request left them out. */
+export type EntryInput = {
+  address: string;
+  allocation: number | null;
+  tiers: Tier[] | null;
+};
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function authenticateBearer(req: ApiRequest, accepted: string[]): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(readHeader(req, "authorization"));
+  if (accepted.length === 0 || !match) {
+    return null;
+  }
+
+  const provided = digest(match[1].trim());
+  // Compare against every token so the time taken does not reveal which one matched.
+  const matched = accepted.reduce((found, token) => timingSafeEqual(provided, digest(token)) || found, false);
+  return matched ? `token:${provided.toString("hex").slice(0, 8)}` : null;
+}
+
+/**
+ * Checks `Authorization: Bearer <ADMIN_API_TOKEN>`. Returns an actor label for the audit log
+ * (a short fingerprint of the token, never the token itself) or null when the request is not
+ * authorised. With no token configured every admin request is refused.
+ */
+export function authenticateAdmin(req: ApiRequest): string | null {
+  const expected = process.env.ADMIN_API_TOKEN || "";
+  return authenticateBearer(req, expected ? [expected] : []);
+}
+
+/**
+ * Read-only integrations (community bots, dashboards) use one of the comma-separated
+ * `STATUS_API_TOKENS`; the admin token is accepted too. Returns the same fingerprint label.
+ */
+export function authenticateStatusClient(req: ApiRequest): string | null {
+  const tokens = [...(process.env.STATUS_API_TOKENS || "").split(","), process.env.ADMIN_API_TOKEN || ""]
+    .map((token) => token.trim())
+    .filter(Boolean);
+  return authenticateBearer(req, tokens);
+}
+
+/** Scheduled jobs authenticate with `CRON_SECRET`, which Vercel Cron sends as a bearer token. */
+export function authenticateCron(req: ApiRequest): string | null {
+  const secret = process.env.CRON_SECRET || "";
+  return authenticateBearer(req, secret ? [secret] : []) ? "cron" : null;
+}
+
+/** Validates one `{ address, allocation?, tiers? }` item from an admin request body. */
+export function parseEntryInput(value: unknown): EntryInput | null {
+  if (typeof value !== "object" || value === null) return null;
+  const input = value as { address?: unknown; allocation?: unknown; tiers?: unknown };
+
+  const address = typeof input.address === "string" ? normalizeAddress(input.address) : null;
+  if (!address) return null;
+
+  const allocation = input.allocation ?? null;
+  if (allocation !== null && (typeof allocation !== "number" || !Number.isInteger(allocation) || allocation <= 0)) {
+    return null;
+  }
+
+  const rawTiers = input.tiers ?? null;
+  if (rawTiers !== null && (!Array.isArray(rawTiers) || rawTiers.length === 0 || !rawTiers.every(isTier))) return null;
+
+  return { address, allocation, tiers: rawTiers && sortTiers(rawTiers) };
+}
+
+/**
+ * Applies an admin upsert to the stored entry. Fields the request left out keep their stored value
+ * (or the default for a new address), and the Merkle proof survives as long as the allocation, the
+ * only other part of the leaf, is unchanged. Otherwise the proof is null until the next import.
+ */
+export function mergeEntryInput(input: EntryInput, existing: AllowlistEntry | null): AllowlistEntry {
+  const allocation = input.allocation ?? existing?.allocation ?? DEFAULT_ALLOCATION;
+  return {
+    address: input.address,
+    allocation,
+    tiers: input.tiers ?? existing?.tiers ?? DEFAULT_TIERS,
+    merkleProof: existing && existing.allocation === allocation ? existing.merkleProof : null
+  };
+}
+
+/** Validates one `{ address, reason, expiresAt? }` blocklist item; `expiresAt` is ISO 8601 or null. */
+export function parseBlockInput(value: unknown): BlockEntry | null {
+  if (typeof value !== "object" || value === null) return null;
+  const input = value as { address?: unknown; reason?: unknown; expiresAt?: unknown };
+
+  const address = typeof input.address === "string" ? normalizeAddress(input.address) : null;
+  if (!address) return null;
+
+  const reason = typeof input.reason === "string" ? input.reason.trim() : "";
+  if (!reason || reason.length > MAX_REASON_LENGTH) return null;
+
+  if (input.expiresAt !== undefined && input.expiresAt !== null && typeof input.expiresAt !== "string") return null;
+  const expiresAt = input.expiresAt ? Date.parse(input.expiresAt) : null;
+  if (expiresAt !== null && Number.isNaN(expiresAt)) return null;
+
+  return {
+    address,
+    reason,
+    expiresAt: expiresAt === null ? null : new Date(expiresAt).toISOString()
+  };
+}
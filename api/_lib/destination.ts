@@ -0,0 +1,23 @@
+import { getStore } from "./storage/index.js";
+
+/** Cutoff after which a source wallet keeps the destination it has; unset means no cutoff. */
+export function getDestinationCutoff(): Date | null {
+  const raw = process.env.DESTINATION_CHANGE_CUTOFF || "";
+  const time = Date.parse(raw);
+  return raw && !Number.isNaN(time) ? new Date(time) : null;
+}
+
+export function isDestinationLocked(now: number = Date.now()): boolean {
+  const cutoff = getDestinationCutoff();
+  return cutoff !== null && now >= cutoff.getTime();
+}
+
+/**
+ * Re-submitting the destination already on file is always allowed, so a returning user can
+ * sign again after the cutoff as long as they do not ask for a different wallet.
+ */
+export async function canSetDestination(source: string, destination: string): Promise<boolean> {
+  if (!isDestinationLocked()) return true;
+  const current = await getStore().getDestination(source);
+  return current?.destination === destination;
+}
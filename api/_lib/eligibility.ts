@@ -0,0 +1,21 @@
+import { BASE_SET } from "../../src/lib/baseAddresses.js";
+import { sortTiers, type Tier } from "../../src/lib/tiers.js";
+import type { AllowlistEntry } from "./storage/index.js";
+
+export type AllowlistMatch = {
+  tiers: Tier[];
+  allocation: number;
+};
+
+/**
+ * Combines the stored entry with the hard-coded `BASE_SET`, which counts as the `base` tier
+ * even for addresses missing from the database. Null means not allowlisted.
+ */
+export function matchAllowlist(address: string, entry: AllowlistEntry | null): AllowlistMatch | null {
+  const tiers = sortTiers([...(entry?.tiers ?? []), ...(BASE_SET.has(address) ? ["base"] : [])]);
+  if (tiers.length === 0) {
+    return null;
+  }
+
+  return { tiers, allocation: entry?.allocation ?? 1 };
+}
@@ -0,0 +1,39 @@
+import { API_ERROR_MESSAGES, API_ERROR_STATUS, type ApiErrorBody, type ApiErrorCode } from "../../src/lib/apiErrors.js";
+import type { ApiResponse } from "./http.js";
+import { StorageUnavailableError } from "./storage/index.js";
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string = API_ERROR_MESSAGES[code],
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export function sendError(
+  res: ApiResponse,
+  code: ApiErrorCode,
+  message: string = API_ERROR_MESSAGES[code],
+  details: Record<string, unknown> = {}
+): void {
+  const body: ApiErrorBody & Record<string, unknown> = { ...details, ok: false, code, error: message };
+  res.status(API_ERROR_STATUS[code]).json(body);
+}
+
+/** Maps anything thrown inside a handler onto the shared error contract. */
+export function sendUnexpectedError(res: ApiResponse, error: unknown): void {
+  if (error instanceof ApiError) {
+    sendError(res, error.code, error.message, error.details);
+    return;
+  }
+  if (error instanceof StorageUnavailableError) {
+    console.error("[storage]", error.message);
+    sendError(res, "STORAGE_UNAVAILABLE");
+    return;
+  }
+  console.error(error);
+  sendError(res, "INTERNAL");
+}
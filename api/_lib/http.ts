@@ -0,0 +1,53 @@
+export type ApiRequest = {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  query?: Record<string, string | string[] | undefined>;
+};
+
+export type ApiResponse = {
+  status: (code: number) => ApiResponse;
+  json: (payload: unknown) => void;
+  setHeader: (name: string, value: string) => void;
+};
+
+export function readJsonBody(req: ApiRequest): Record<string, unknown> {
+  const body = req.body;
+  if (!body) {
+    return {};
+  }
+
+  if (typeof body === "object" && body !== null) {
+    return body as Record<string, unknown>;
+  }
+
+  if (typeof body === "string") {
+    try {
+      const parsed = JSON.parse(body) as unknown;
+      return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  return {};
+}
+
+export function readString(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export function readHeader(req: ApiRequest, name: string): string {
+  const value = req.headers[name.toLowerCase()];
+  if (Array.isArray(value)) {
+    return value[0] ?? "";
+  }
+  return value ?? "";
+}
+
+export function readQuery(req: ApiRequest, key: string): string {
+  const value = req.query?.[key];
+  const raw = Array.isArray(value) ? value[0] : value;
+  return typeof raw === "string" ? raw.trim() : "";
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from "node:fs";
+import { getPhaseStatus, type Phase, type PhaseStatus } from "../../src/lib/phases.js";
+import { isTier, sortTiers, TIERS } from "../../src/lib/tiers.js";
+
+let cached: { source: string; phases: Phase[] } | null = null;
+
+function parsePhase(value: unknown, index: number): Phase {
+  const raw = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+  const name = typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : `phase-${index + 1}`;
+  const start = typeof raw.start === "string" ? Date.parse(raw.start) : Number.NaN;
+  const end = typeof raw.end === "string" ? Date.parse(raw.end) : Number.NaN;
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) {
+    throw new Error(`Phase "${name}" needs ISO 8601 start and end with end after start.`);
+  }
+  const tiers = Array.isArray(raw.tiers) ? raw.tiers : [...TIERS];
+  const unknown = tiers.filter((tier) => !isTier(tier));
+  if (unknown.length > 0 || tiers.length === 0) {
+    throw new Error(`Phase "${name}" has invalid tiers: ${unknown.join(", ") || "(none)"}.`);
+  }
+  return { name, start: new Date(start).toISOString(), end: new Date(end).toISOString(), tiers: sortTiers(tiers) };
+}
+
+function readScheduleSource(): string {
+  if (process.env.CONFIRMATION_PHASES) return process.env.CONFIRMATION_PHASES;
+  if (process.env.CONFIRMATION_PHASES_FILE) return readFileSync(process.env.CONFIRMATION_PHASES_FILE, "utf8");
+  return "";
+}
+
+/**
+ * The schedule from `CONFIRMATION_PHASES` (a JSON array) or the file named by
+ * `CONFIRMATION_PHASES_FILE`. Returns null when neither is set: confirmation is then always
+ * open to every tier, as before schedules existed. A malformed schedule throws rather than
+ * silently opening or closing the window.
+ */
+export function loadPhases(): Phase[] | null {
+  const source = readScheduleSource();
+  if (!source.trim()) return null;
+  if (cached?.source !== source) {
+    const parsed: unknown = JSON.parse(source);
+    if (!Array.isArray(parsed)) {
+      throw new Error("Confirmation phases must be a JSON array.");
+    }
+    cached = { source, phases: parsed.map(parsePhase) };
+  }
+  return cached.phases;
+}
+
+export function getConfirmationWindow(now: number = Date.now()): PhaseStatus {
+  const phases = loadPhases();
+  if (!phases) {
+    return { now: new Date(now).toISOString(), open: true, current: null, next: null };
+  }
+  return getPhaseStatus(phases, now);
+}
+
+/** True when the window is open and, with a schedule, the current phase admits one of `tiers`. */
+export function isOpenForTiers(window: PhaseStatus, tiers: readonly string[]): boolean {
+  if (!window.open) return false;
+  return !window.current || window.current.tiers.some((tier) => tiers.includes(tier));
+}
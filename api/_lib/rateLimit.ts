@@ -0,0 +1,138 @@
+import { sendError } from "./errors.js";
+import { readHeader, type ApiRequest, type ApiResponse } from "./http.js";
+
+export type RateLimitRule = {
+  name: string;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitCheck = {
+  rule: RateLimitRule;
+  key: string;
+};
+
+/** Shared by /api/monad-nonce and /api/monad-address, so one full attempt costs two hits. */
+export const VERIFY_RATE_LIMITS = {
+  ip: { name: "verify-ip", limit: 40, windowMs: 10 * 60 * 1000 },
+  address: { name: "verify-address", limit: 12, windowMs: 10 * 60 * 1000 }
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * The verify routes only answer NOT_ALLOWLISTED after a valid owner signature, so the public
+ * lookups (status, proof, destination) are the one place an anonymous caller can test addresses.
+ * They share one per-IP bucket, kept apart from verification and sized for the form: a visit
+ * re-checks up to five remembered wallets and fetches a proof. The batch rule is keyed by token,
+ * so it caps how fast one integration can walk the list.
+ */
+export const STATUS_RATE_LIMITS = {
+  ip: { name: "status-ip", limit: 20, windowMs: 10 * 60 * 1000 },
+  batch: { name: "status-batch", limit: 30, windowMs: 10 * 60 * 1000 }
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitResult = { allowed: true } | { allowed: false; rule: string; retryAfterSeconds: number };
+
+/**
+ * Sliding-window log storage. `add` records a hit and returns the timestamps of every hit
+ * still inside the window (the new one included), oldest first. `remove` withdraws a hit
+ * that was rejected so that hammering a limit does not extend the lockout.
+ */
+export type RateLimitStore = {
+  add: (key: string, hitId: string, now: number, windowMs: number) => Promise<number[]>;
+  remove: (key: string, hitId: string) => Promise<void>;
+};
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, { id: string; at: number }[]>();
+
+  return {
+    async add(key, hitId, now, windowMs) {
+      const live = (hits.get(key) ?? []).filter((hit) => hit.at > now - windowMs);
+      live.push({ id: hitId, at: now });
+      hits.set(key, live);
+      return live.map((hit) => hit.at);
+    },
+    async remove(key, hitId) {
+      const live = hits.get(key);
+      if (!live) return;
+      const remaining = live.filter((hit) => hit.id !== hitId);
+      if (remaining.length > 0) hits.set(key, remaining);
+      else hits.delete(key);
+    }
+  };
+}
+
+export function createKvRateLimitStore(): RateLimitStore {
+  const kvPromise = import("@vercel/kv").then((module) => module.kv);
+
+  return {
+    async add(key, hitId, now, windowMs) {
+      const kv = await kvPromise;
+      const pipeline = kv.pipeline();
+      pipeline.zremrangebyscore(key, 0, now - windowMs);
+      pipeline.zadd(key, { score: now, member: hitId });
+      pipeline.zrange(key, 0, -1, { withScores: true });
+      pipeline.pexpire(key, windowMs);
+      const [, , range] = (await pipeline.exec()) as [unknown, unknown, (string | number)[], unknown];
+      const scores: number[] = [];
+      for (let i = 1; i < range.length; i += 2) {
+        scores.push(Number(range[i]));
+      }
+      return scores;
+    },
+    async remove(key, hitId) {
+      const kv = await kvPromise;
+      await kv.zrem(key, hitId);
+    }
+  };
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore =
+      process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN
+        ? createKvRateLimitStore()
+        : createMemoryRateLimitStore();
+  }
+  return defaultStore;
+}
+
+export function getClientIp(req: ApiRequest): string {
+  const forwarded = readHeader(req, "x-forwarded-for").split(",")[0].trim();
+  return forwarded || readHeader(req, "x-real-ip") || "unknown";
+}
+
+export async function checkRateLimits(
+  checks: RateLimitCheck[],
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now()
+): Promise<RateLimitResult> {
+  const hitId = `${now}-${Math.random().toString(36).slice(2, 10)}`;
+  const recorded: RateLimitCheck[] = [];
+  let denied: { rule: string; retryAfterMs: number } | null = null;
+
+  for (const check of checks) {
+    const key = `rl:${check.rule.name}:${check.key}`;
+    const hits = await store.add(key, hitId, now, check.rule.windowMs);
+    recorded.push(check);
+    if (hits.length > check.rule.limit) {
+      const blocking = hits[hits.length - 1 - check.rule.limit];
+      denied = { rule: check.rule.name, retryAfterMs: blocking + check.rule.windowMs - now };
+      break;
+    }
+  }
+
+  if (!denied) {
+    return { allowed: true };
+  }
+
+  await Promise.all(recorded.map((check) => store.remove(`rl:${check.rule.name}:${check.key}`, hitId)));
+  return { allowed: false, rule: denied.rule, retryAfterSeconds: Math.max(1, Math.ceil(denied.retryAfterMs / 1000)) };
+}
+
+export function sendRateLimited(res: ApiResponse, result: Extract<RateLimitResult, { allowed: false }>): void {
+  res.setHeader("Retry-After", String(result.retryAfterSeconds));
+  sendError(res, "RATE_LIMITED", "Too many attempts. Try again later.", { retryAfter: result.retryAfterSeconds });
+}
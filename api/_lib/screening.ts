@@ -0,0 +1,49 @@
+import { createHmac } from "node:crypto";
+import type { ApiRequest } from "./http.js";
+import { getClientIp } from "./rateLimit.js";
+import { getStore } from "./storage/index.js";
+
+export type ScreeningResult =
+  | { ok: true }
+  | { ok: false; code: "INVALID_ADDRESS" | "ADDRESS_BLOCKED"; error: string };
+
+// The zero address and everything up to 0xffff: Ethereum precompiles (0x01–0x0a) and the
+// system contracts chains such as Monad place in that range. Nobody holds keys for them.
+const RESERVED_ADDRESS_REGEX = /^0x0{36}[a-f0-9]{4}$/;
+
+export function isReservedAddress(address: string): boolean {
+  return RESERVED_ADDRESS_REGEX.test(address.toLowerCase());
+}
+
+/**
+ * Keyed with `IP_HASH_SECRET`, so a logged hash cannot be reversed by hashing the IPv4 space.
+ * Without the secret no IP is recorded at all.
+ */
+export function hashClientIp(req: ApiRequest): string | null {
+  const secret = process.env.IP_HASH_SECRET || "";
+  if (!secret) return null;
+  return createHmac("sha256", secret).update(getClientIp(req)).digest("hex").slice(0, 32);
+}
+
+/**
+ * Rejects reserved addresses and anything on the blocklist. Blocked attempts are logged with
+ * their reason; the caller only gets the generic `ADDRESS_BLOCKED`, never the reason.
+ * Addresses must already be lowercased.
+ */
+export async function screenAddresses(req: ApiRequest, route: string, addresses: string[]): Promise<ScreeningResult> {
+  for (const address of addresses) {
+    if (isReservedAddress(address)) {
+      return { ok: false, code: "INVALID_ADDRESS", error: "Reserved addresses cannot be used." };
+    }
+  }
+
+  const store = getStore();
+  for (const address of addresses) {
+    const block = await store.getActiveBlock(address);
+    if (!block) continue;
+    console.warn(`[blocklist] ${route} refused ${address} (${block.reason})`);
+    await store.recordBlockedAttempt({ address, reason: block.reason, route, ipHash: hashClientIp(req) });
+    return { ok: false, code: "ADDRESS_BLOCKED", error: "This address cannot be confirmed." };
+  }
+  return { ok: true };
+}
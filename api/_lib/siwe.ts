@@ -0,0 +1,142 @@
+import { recoverMessageAddress } from "viem";
+import { createSiweMessage, generateSiweNonce, parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import { readHeader, type ApiRequest } from "./http.js";
+import { getStore } from "./storage/index.js";
+import { checkAddress, describeAddressProblem } from "../../src/lib/address.js";
+
+const NONCE_TTL_MS = 10 * 60 * 1000;
+const DEFAULT_CHAIN_ID = 143;
+const STATEMENT = "Confirm that I own this wallet for the WoollyEggs allowlist.";
+// The destination travels as a SIWE resource so the wallet signs it along with the nonce.
+const DESTINATION_RESOURCE_PREFIX = "urn:woollyeggs:monad-destination:";
+
+export type SignInOrigin = {
+  domain: string;
+  uri: string;
+};
+
+export type IssuedChallenge = {
+  nonce: string;
+  message: string;
+  expiresAt: string;
+};
+
+export type ChallengeCheck =
+  | { ok: true; nonce: string; destination: string | null }
+  | { ok: false; code: "INVALID_SIGNATURE" | "CHALLENGE_EXPIRED" | "INVALID_ADDRESS"; error: string };
+
+function getChainId(): number {
+  const parsed = Number.parseInt(process.env.MONAD_CHAIN_ID || "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_CHAIN_ID;
+}
+
+function isLocalDevelopment(): boolean {
+  return !process.env.VERCEL && process.env.NODE_ENV !== "production";
+}
+
+/**
+ * The domain wallets sign for: `SIWE_DOMAIN`, else the Vercel production domain. Request headers are
+ * client-controlled off Vercel's edge, so the `Host` header is only trusted in local development.
+ */
+export function getSignInOrigin(req: ApiRequest): SignInOrigin {
+  const configured = (process.env.SIWE_DOMAIN || process.env.VERCEL_PROJECT_PRODUCTION_URL || "").trim();
+  const domain = configured || (isLocalDevelopment() ? readHeader(req, "host") || "localhost" : "");
+  if (!domain) {
+    throw new Error("SIWE_DOMAIN is not set; refusing to take the sign-in domain from the request.");
+  }
+  const scheme = domain.startsWith("localhost") || domain.startsWith("127.0.0.1") ? "http" : "https";
+  return { domain, uri: `${scheme}://${domain}` };
+}
+
+/**
+ * The destination named in the signed resources, checked like the one sent to /api/monad-nonce.
+ * The message comes from the client, so a resource we never issued is possible.
+ */
+function readDestination(
+  resources: string[] | undefined
+): { ok: true; destination: string | null } | { ok: false; error: string } {
+  const resource = resources?.find((value) => value.startsWith(DESTINATION_RESOURCE_PREFIX));
+  if (!resource) return { ok: true, destination: null };
+  const check = checkAddress(resource.slice(DESTINATION_RESOURCE_PREFIX.length));
+  return check.ok
+    ? { ok: true, destination: check.address }
+    : { ok: false, error: `Destination: ${describeAddressProblem(check.problem)}.` };
+}
+
+export async function issueChallenge(
+  address: string,
+  origin: SignInOrigin,
+  destination: string | null = null
+): Promise<IssuedChallenge> {
+  const nonce = generateSiweNonce();
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+
+  await getStore().createNonce(nonce, address, expiresAt);
+
+  const message = createSiweMessage({
+    address: address as `0x${string}`,
+    chainId: getChainId(),
+    domain: origin.domain,
+    uri: origin.uri,
+    version: "1",
+    statement: STATEMENT,
+    nonce,
+    issuedAt,
+    expirationTime: expiresAt,
+    ...(destination ? { resources: [`${DESTINATION_RESOURCE_PREFIX}${destination}`] } : {})
+  });
+
+  return { nonce, message, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * Checks that `message` is the challenge we issued for `address` on this origin and that
+ * `signature` was produced by that wallet. A destination named in the challenge is validated and
+ * returned with the result, since it is covered by the same signature; screening it and the
+ * change cutoff are left to the caller. Only EOA signatures are supported; contract
+ * wallets (EIP-1271) would need an RPC call to verify.
+ */
+export async function verifyChallenge(
+  address: string,
+  message: string,
+  signature: string,
+  origin: SignInOrigin
+): Promise<ChallengeCheck> {
+  const parsed = parseSiweMessage(message);
+  const checksumless = address.toLowerCase();
+
+  if (
+    !parsed.nonce ||
+    !parsed.address ||
+    parsed.address.toLowerCase() !== checksumless ||
+    parsed.chainId !== getChainId() ||
+    !validateSiweMessage({ message: parsed, domain: origin.domain })
+  ) {
+    return { ok: false, code: "INVALID_SIGNATURE", error: "Signed message does not match this request." };
+  }
+
+  let recovered: string;
+  try {
+    recovered = await recoverMessageAddress({ message, signature: signature as `0x${string}` });
+  } catch {
+    return { ok: false, code: "INVALID_SIGNATURE", error: "Malformed signature." };
+  }
+
+  if (recovered.toLowerCase() !== checksumless) {
+    return { ok: false, code: "INVALID_SIGNATURE", error: "Signature was not produced by this address." };
+  }
+
+  const destination = readDestination(parsed.resources);
+  if (!destination.ok) {
+    return { ok: false, code: "INVALID_ADDRESS", error: destination.error };
+  }
+
+  const consumed = await getStore().consumeNonce(parsed.nonce, checksumless);
+
+  if (!consumed) {
+    return { ok: false, code: "CHALLENGE_EXPIRED", error: "Challenge expired or already used. Request a new one." };
+  }
+
+  return { ok: true, nonce: parsed.nonce, destination: destination.destination };
+}
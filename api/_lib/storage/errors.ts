@@ -0,0 +1,7 @@
+/** Thrown when the backing store cannot be reached or is not configured. */
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
@@ -0,0 +1,60 @@
+import { createMemoryStore } from "./memory.js";
+import { createPostgresStore, getDatabaseUrl } from "./postgres.js";
+import type { AllowlistStore } from "./types.js";
+
+export type {
+  AddressStatus,
+  AllowlistChanges,
+  AllowlistChangeSummary,
+  AllowlistEntry,
+  AllowlistStats,
+  AllowlistStore,
+  AuditContext,
+  BlockedAttempt,
+  BlockEntry,
+  ConfirmationInput,
+  ConfirmationListQuery,
+  ConfirmationPage,
+  ConfirmationRecord,
+  ConfirmationResult,
+  DestinationChange,
+  DeliveryOutcome,
+  DestinationMapping,
+  HourlyConfirmations,
+  MintProofRecord,
+  OutboxDelivery,
+  OutboxEvent,
+  OutboxEventType,
+  ReplayQuery,
+  TierCounts,
+  UpsertSummary
+} from "./types.js";
+
+export { getDatabaseUrl };
+export { StorageUnavailableError } from "./errors.js";
+
+export type StorageDriver = "postgres" | "memory";
+
+export function getStorageDriver(): StorageDriver {
+  return process.env.STORAGE_DRIVER === "memory" ? "memory" : "postgres";
+}
+
+let store: AllowlistStore | null = null;
+
+/**
+ * Returns the process-wide store selected by `STORAGE_DRIVER` (`postgres` by default, or
+ * `memory`, optionally persisted to `STORAGE_FILE`).
+ */
+export function getStore(): AllowlistStore {
+  if (!store) {
+    store =
+      getStorageDriver() === "memory"
+        ? createMemoryStore(process.env.STORAGE_FILE || undefined)
+        : createPostgresStore();
+  }
+  return store;
+}
+
+export function setStore(next: AllowlistStore | null): void {
+  store = next;
+}
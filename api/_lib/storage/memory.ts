@@ -0,0 +1,540 @@
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { TIERS } from "../../../src/lib/tiers.js";
+import type {
+  AddressStatus,
+  AllowlistEntry,
+  AllowlistStats,
+  AllowlistStore,
+  AuditContext,
+  BlockedAttempt,
+  BlockEntry,
+  ConfirmationInput,
+  DestinationChange,
+  DestinationMapping,
+  OutboxEvent,
+  OutboxEventType,
+  UpsertSummary
+} from "./types.js";
+
+type MemoryDelivery = {
+  id: string;
+  eventId: string;
+  endpoint: string;
+  status: "pending" | "delivered" | "dead";
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+};
+
+type MemorySnapshot = {
+  allowlist: Record<string, AllowlistEntry>;
+  confirmations: Record<string, ConfirmationInput & { confirmedAt: string }>;
+  nonces: Record<string, { address: string; expiresAt: string; consumedAt: string | null }>;
+  blocks: Record<string, BlockEntry>;
+  blockedAttempts: (BlockedAttempt & { createdAt: string })[];
+  destinations: { source: string; destination: string; createdAt: string; replacedAt: string | null }[];
+  outbox: OutboxEvent[];
+  /** Endpoint names that get a delivery for every event. */
+  webhookEndpoints: string[];
+  deliveries: MemoryDelivery[];
+  meta: Record<string, string>;
+  audit: { actor: string; action: string; address: string | null; details: Record<string, unknown>; createdAt: string }[];
+};
+
+function emptySnapshot(): MemorySnapshot {
+  return {
+    allowlist: {},
+    confirmations: {},
+    nonces: {},
+    blocks: {},
+    blockedAttempts: [],
+    destinations: [],
+    outbox: [],
+    webhookEndpoints: [],
+    deliveries: [],
+    meta: {},
+    audit: []
+  };
+}
+
+function recordAudit(
+  snapshot: MemorySnapshot,
+  audit: AuditContext | undefined,
+  address: string | null,
+  details: Record<string, unknown>
+): void {
+  if (!audit) return;
+  snapshot.audit.push({
+    actor: audit.actor,
+    action: audit.action,
+    address,
+    details: { ...audit.details, ...details },
+    createdAt: new Date().toISOString()
+  });
+}
+
+function addDelivery(snapshot: MemorySnapshot, event: OutboxEvent, endpoint: string): void {
+  snapshot.deliveries.push({
+    id: String(snapshot.deliveries.length + 1),
+    eventId: event.id,
+    endpoint,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: event.createdAt,
+    lastError: null
+  });
+}
+
+/** Appends the event along with one delivery per registered endpoint. */
+function recordEvent(
+  snapshot: MemorySnapshot,
+  type: OutboxEventType,
+  address: string,
+  payload: Record<string, unknown>
+): void {
+  const event: OutboxEvent = {
+    id: String(snapshot.outbox.length + 1),
+    type,
+    address,
+    payload,
+    createdAt: new Date().toISOString()
+  };
+  snapshot.outbox.push(event);
+  for (const endpoint of snapshot.webhookEndpoints) addDelivery(snapshot, event, endpoint);
+}
+
+function readStatus(snapshot: MemorySnapshot, address: string): AddressStatus {
+  const confirmedAt = snapshot.confirmations[address]?.confirmedAt ?? null;
+  return { address, entry: snapshot.allowlist[address] ?? null, confirmed: confirmedAt !== null, confirmedAt };
+}
+
+function sameEntry(a: AllowlistEntry, b: AllowlistEntry): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function upsertEntries(snapshot: MemorySnapshot, entries: AllowlistEntry[]): UpsertSummary {
+  const summary: UpsertSummary = { inserted: 0, updated: 0 };
+  for (const entry of entries) {
+    const previous = snapshot.allowlist[entry.address];
+    if (!previous) summary.inserted += 1;
+    else if (!sameEntry(previous, entry)) summary.updated += 1;
+    else continue;
+    snapshot.allowlist[entry.address] = { ...entry };
+  }
+  return summary;
+}
+
+function deleteEntries(snapshot: MemorySnapshot, addresses: string[]): number {
+  let removed = 0;
+  for (const address of addresses) {
+    if (snapshot.allowlist[address]) {
+      delete snapshot.allowlist[address];
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+function readDestination(snapshot: MemorySnapshot, source: string): DestinationMapping | null {
+  const active = snapshot.destinations.find((row) => row.source === source && row.replacedAt === null);
+  return active ? { source, destination: active.destination, updatedAt: active.createdAt } : null;
+}
+
+function replaceDestination(snapshot: MemorySnapshot, source: string, destination: string): DestinationChange {
+  const active = snapshot.destinations.find((row) => row.source === source && row.replacedAt === null);
+  if (active && active.destination === destination) {
+    return { mapping: { source, destination, updatedAt: active.createdAt }, changed: false };
+  }
+  const now = new Date().toISOString();
+  if (active) active.replacedAt = now;
+  snapshot.destinations.push({ source, destination, createdAt: now, replacedAt: null });
+  return { mapping: { source, destination, updatedAt: now }, changed: true };
+}
+
+async function readSnapshot(file: string): Promise<MemorySnapshot | null> {
+  try {
+    return { ...emptySnapshot(), ...(JSON.parse(await readFile(file, "utf8")) as Partial<MemorySnapshot>) };
+  } catch {
+    // missing, unreadable or half-written file
+    return null;
+  }
+}
+
+async function readVersion(file: string): Promise<string | null> {
+  try {
+    const info = await stat(file);
+    return `${info.mtimeMs}:${info.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Embedded store for local development and scripts. Data lives in memory; when `file` is
+ * given it is re-read whenever it changed on disk and rewritten after every mutation, so the
+ * importer and a dev server can share one allowlist without a database server. Each write
+ * replaces the whole file: processes that write at the same moment still lose one side.
+ */
+export function createMemoryStore(file?: string): AllowlistStore {
+  let data: MemorySnapshot | null = null;
+  let version: string | null = null;
+  let loading: Promise<MemorySnapshot> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const load = (): Promise<MemorySnapshot> => {
+    if (data && !file) return Promise.resolve(data);
+    if (!loading) {
+      loading = (async () => {
+        if (file) {
+          await writing;
+          const current = await readVersion(file);
+          if (!data || current !== version) {
+            const snapshot = await readSnapshot(file);
+            if (snapshot) version = current;
+            data = snapshot ?? data;
+          }
+        }
+        if (!data) data = emptySnapshot();
+        return data;
+      })().finally(() => {
+        loading = null;
+      });
+    }
+    return loading;
+  };
+
+  const persist = (): Promise<void> => {
+    if (!file || !data) return Promise.resolve();
+    const body = `${JSON.stringify(data, null, 2)}\n`;
+    writing = writing.then(async () => {
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body, "utf8");
+      version = await readVersion(file);
+    });
+    return writing;
+  };
+
+  return {
+    async getAllowlistEntry(address) {
+      const snapshot = await load();
+      return snapshot.allowlist[address] ?? null;
+    },
+
+    async listAllowlistEntries() {
+      const snapshot = await load();
+      return Object.keys(snapshot.allowlist)
+        .sort()
+        .map((address) => ({ ...snapshot.allowlist[address] }));
+    },
+
+    async upsertAllowlistEntries(entries, audit) {
+      const snapshot = await load();
+      const summary = upsertEntries(snapshot, entries);
+      recordAudit(snapshot, audit, entries.length === 1 ? entries[0].address : null, {
+        count: entries.length,
+        ...summary
+      });
+      await persist();
+      return summary;
+    },
+
+    async removeAllowlistEntries(addresses, audit) {
+      const snapshot = await load();
+      const removed = deleteEntries(snapshot, addresses);
+      recordAudit(snapshot, audit, addresses.length === 1 ? addresses[0] : null, { count: addresses.length, removed });
+      await persist();
+      return removed;
+    },
+
+    async applyAllowlistChanges(changes, audit) {
+      const snapshot = await load();
+      const removed = deleteEntries(snapshot, changes.removals);
+      const summary = upsertEntries(snapshot, changes.upserts);
+      Object.assign(snapshot.meta, changes.meta ?? {});
+      recordAudit(snapshot, audit, null, { ...summary, removed });
+      await persist();
+      return { ...summary, removed };
+    },
+
+    async confirmAddress(address, input, destination) {
+      const snapshot = await load();
+      const existing = snapshot.confirmations[address];
+      const confirmedAt = existing?.confirmedAt ?? new Date().toISOString();
+      if (!existing) {
+        snapshot.confirmations[address] = { ...input, confirmedAt };
+        recordEvent(snapshot, "confirmation.created", address, { source: input.source, confirmedAt });
+      }
+      const change = destination ? replaceDestination(snapshot, address, destination) : null;
+      if (!existing || change?.changed) await persist();
+      return {
+        inserted: !existing,
+        confirmedAt,
+        destination: change ? change.mapping : readDestination(snapshot, address),
+        destinationChanged: change?.changed ?? false
+      };
+    },
+
+    async isConfirmed(address) {
+      const snapshot = await load();
+      return Boolean(snapshot.confirmations[address]);
+    },
+
+    async revokeConfirmation(address, audit) {
+      const snapshot = await load();
+      const revoked = Boolean(snapshot.confirmations[address]);
+      delete snapshot.confirmations[address];
+      recordAudit(snapshot, audit, address, { revoked });
+      if (revoked) {
+        recordEvent(snapshot, "confirmation.revoked", address, {
+          revokedAt: new Date().toISOString(),
+          actor: audit?.actor ?? null
+        });
+      }
+      await persist();
+      return revoked;
+    },
+
+    async getAddressStatus(address) {
+      const snapshot = await load();
+      return readStatus(snapshot, address);
+    },
+
+    async getAddressStatuses(addresses) {
+      const snapshot = await load();
+      return addresses.map((address) => readStatus(snapshot, address));
+    },
+
+    async listConfirmations(query) {
+      const snapshot = await load();
+      const since = query.since?.getTime() ?? -Infinity;
+      const until = query.until?.getTime() ?? Infinity;
+      const matching = Object.entries(snapshot.confirmations)
+        .map(([address, confirmation]) => {
+          const entry = snapshot.allowlist[address];
+          return {
+            address,
+            allocation: entry?.allocation ?? null,
+            tiers: entry?.tiers ?? [],
+            confirmedAt: confirmation.confirmedAt,
+            source: confirmation.source ?? "legacy"
+          };
+        })
+        .filter((record) => !query.tier || record.tiers.includes(query.tier))
+        .filter((record) => !query.addressPrefix || record.address.startsWith(query.addressPrefix))
+        .filter((record) => Date.parse(record.confirmedAt) >= since && Date.parse(record.confirmedAt) < until)
+        .sort((a, b) => b.confirmedAt.localeCompare(a.confirmedAt) || a.address.localeCompare(b.address));
+      return { total: matching.length, items: matching.slice(query.offset, query.offset + query.limit) };
+    },
+
+    async getActiveBlock(address) {
+      const snapshot = await load();
+      const block = snapshot.blocks[address];
+      if (!block || (block.expiresAt && Date.parse(block.expiresAt) <= Date.now())) return null;
+      return { ...block };
+    },
+
+    async listBlocks() {
+      const snapshot = await load();
+      return Object.keys(snapshot.blocks)
+        .sort()
+        .map((address) => ({ ...snapshot.blocks[address] }));
+    },
+
+    async upsertBlocks(entries, audit) {
+      const snapshot = await load();
+      const summary: UpsertSummary = { inserted: 0, updated: 0 };
+      for (const entry of entries) {
+        const previous = snapshot.blocks[entry.address];
+        if (!previous) summary.inserted += 1;
+        else if (previous.reason !== entry.reason || previous.expiresAt !== entry.expiresAt) summary.updated += 1;
+        else continue;
+        snapshot.blocks[entry.address] = { ...entry };
+      }
+      recordAudit(snapshot, audit, entries.length === 1 ? entries[0].address : null, {
+        count: entries.length,
+        ...summary
+      });
+      await persist();
+      return summary;
+    },
+
+    async removeBlocks(addresses, audit) {
+      const snapshot = await load();
+      let removed = 0;
+      for (const address of addresses) {
+        if (!snapshot.blocks[address]) continue;
+        delete snapshot.blocks[address];
+        removed += 1;
+      }
+      recordAudit(snapshot, audit, addresses.length === 1 ? addresses[0] : null, { count: addresses.length, removed });
+      await persist();
+      return removed;
+    },
+
+    async recordBlockedAttempt(attempt) {
+      const snapshot = await load();
+      snapshot.blockedAttempts.push({ ...attempt, createdAt: new Date().toISOString() });
+      await persist();
+    },
+
+    async getDestination(source) {
+      const snapshot = await load();
+      return readDestination(snapshot, source);
+    },
+
+    async setDestination(source, destination) {
+      const snapshot = await load();
+      const change = replaceDestination(snapshot, source, destination);
+      if (change.changed) await persist();
+      return change;
+    },
+
+    async getMintProof(address) {
+      const snapshot = await load();
+      const entry = snapshot.allowlist[address];
+      if (!entry || !entry.merkleProof || !snapshot.confirmations[address]) return null;
+      return { allocation: entry.allocation, proof: entry.merkleProof, root: snapshot.meta.merkle_root ?? null };
+    },
+
+    async getStats(since) {
+      const snapshot = await load();
+      const tiers = Object.fromEntries(
+        TIERS.map((tier) => [tier, { allowlisted: 0, confirmed: 0 }])
+      ) as AllowlistStats["tiers"];
+      const hourly = new Map<string, number>();
+      let confirmed = 0;
+      for (const entry of Object.values(snapshot.allowlist)) {
+        const confirmation = snapshot.confirmations[entry.address];
+        for (const tier of entry.tiers) {
+          tiers[tier].allowlisted += 1;
+          if (confirmation) tiers[tier].confirmed += 1;
+        }
+        if (!confirmation) continue;
+        confirmed += 1;
+        if (Date.parse(confirmation.confirmedAt) >= since.getTime()) {
+          const hour = new Date(confirmation.confirmedAt);
+          hour.setUTCMinutes(0, 0, 0);
+          hourly.set(hour.toISOString(), (hourly.get(hour.toISOString()) ?? 0) + 1);
+        }
+      }
+      return {
+        allowlisted: Object.keys(snapshot.allowlist).length,
+        confirmed,
+        tiers,
+        hourly: [...hourly.entries()].sort().map(([hour, count]) => ({ hour, confirmed: count }))
+      };
+    },
+
+    async getMeta(key) {
+      const snapshot = await load();
+      return snapshot.meta[key] ?? null;
+    },
+
+    async setMeta(key, value) {
+      const snapshot = await load();
+      snapshot.meta[key] = value;
+      await persist();
+    },
+
+    async createNonce(nonce, address, expiresAt) {
+      const snapshot = await load();
+      const now = Date.now();
+      for (const [key, record] of Object.entries(snapshot.nonces)) {
+        if (Date.parse(record.expiresAt) <= now) delete snapshot.nonces[key];
+      }
+      snapshot.nonces[nonce] = { address, expiresAt: expiresAt.toISOString(), consumedAt: null };
+      await persist();
+    },
+
+    async consumeNonce(nonce, address) {
+      const snapshot = await load();
+      const record = snapshot.nonces[nonce];
+      if (!record || record.address !== address || record.consumedAt || Date.parse(record.expiresAt) <= Date.now()) {
+        return false;
+      }
+      record.consumedAt = new Date().toISOString();
+      await persist();
+      return true;
+    },
+
+    async registerWebhookEndpoints(endpoints) {
+      const snapshot = await load();
+      const added = [...new Set(endpoints)].filter((endpoint) => !snapshot.webhookEndpoints.includes(endpoint));
+      if (added.length === 0) return 0;
+      // Files written before endpoints were registered may already hold some of these deliveries.
+      const existing = new Set(snapshot.deliveries.map((delivery) => `${delivery.eventId}:${delivery.endpoint}`));
+      for (const endpoint of added) {
+        snapshot.webhookEndpoints.push(endpoint);
+        for (const event of snapshot.outbox) {
+          if (!existing.has(`${event.id}:${endpoint}`)) addDelivery(snapshot, event, endpoint);
+        }
+      }
+      await persist();
+      return added.length;
+    },
+
+    async claimDeliveries(endpoints, limit, leaseMs) {
+      const snapshot = await load();
+      const now = Date.now();
+      const due = snapshot.deliveries
+        .filter((d) => d.status === "pending" && endpoints.includes(d.endpoint) && Date.parse(d.nextAttemptAt) <= now)
+        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt) || Number(a.id) - Number(b.id))
+        .slice(0, limit);
+      const events = new Map(snapshot.outbox.map((event) => [event.id, event]));
+      for (const delivery of due) {
+        delivery.attempts += 1;
+        delivery.nextAttemptAt = new Date(now + leaseMs).toISOString();
+      }
+      await persist();
+      return due.map((delivery) => ({
+        id: delivery.id,
+        endpoint: delivery.endpoint,
+        attempts: delivery.attempts,
+        event: events.get(delivery.eventId) as OutboxEvent
+      }));
+    },
+
+    async completeDelivery(id, outcome) {
+      const snapshot = await load();
+      const delivery = snapshot.deliveries.find((row) => row.id === id);
+      if (!delivery) return;
+      if (outcome.delivered) {
+        delivery.status = "delivered";
+        delivery.lastError = null;
+      } else {
+        delivery.status = outcome.retryAt ? "pending" : "dead";
+        delivery.nextAttemptAt = outcome.retryAt?.toISOString() ?? delivery.nextAttemptAt;
+        delivery.lastError = outcome.error;
+      }
+      await persist();
+    },
+
+    async replayDeliveries(query, audit) {
+      const snapshot = await load();
+      let replayed = 0;
+      for (const delivery of snapshot.deliveries) {
+        if (query.endpoint && delivery.endpoint !== query.endpoint) continue;
+        if (query.eventIds ? !query.eventIds.includes(delivery.eventId) : delivery.status !== "dead") continue;
+        Object.assign(delivery, {
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: new Date().toISOString(),
+          lastError: null
+        });
+        replayed += 1;
+      }
+      recordAudit(snapshot, audit, null, { ...query, replayed });
+      await persist();
+      return replayed;
+    },
+
+    async migrate() {
+      return [];
+    },
+
+    async close() {
+      await writing;
+    }
+  };
+}
@@ -0,0 +1,194 @@
+import type { PoolClient } from "pg";
+
+export type Migration = {
+  version: number;
+  name: string;
+  sql: string;
+};
+
+/**
+ * Ordered schema history. Never edit a released migration; append a new one. The early
+ * steps use IF NOT EXISTS so databases created by hand before the runner existed adopt the
+ * history without errors.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "baseline",
+    sql: `
+      CREATE TABLE IF NOT EXISTS allowlist_addresses (address text PRIMARY KEY);
+      CREATE TABLE IF NOT EXISTS confirmed_addresses (address text PRIMARY KEY);
+    `
+  },
+  {
+    version: 2,
+    name: "allowlist_allocation_tiers_proofs",
+    sql: `
+      ALTER TABLE allowlist_addresses ADD COLUMN IF NOT EXISTS allocation integer NOT NULL DEFAULT 1;
+      ALTER TABLE allowlist_addresses ADD COLUMN IF NOT EXISTS tiers text[] NOT NULL DEFAULT '{base}';
+      ALTER TABLE allowlist_addresses ADD COLUMN IF NOT EXISTS merkle_proof text[];
+      CREATE TABLE IF NOT EXISTS allowlist_meta (key text PRIMARY KEY, value text NOT NULL);
+    `
+  },
+  {
+    version: 3,
+    name: "wallet_nonces",
+    sql: `
+      CREATE TABLE IF NOT EXISTS wallet_nonces (
+        nonce text PRIMARY KEY,
+        address text NOT NULL,
+        issued_at timestamptz NOT NULL DEFAULT now(),
+        expires_at timestamptz NOT NULL,
+        consumed_at timestamptz
+      );
+      CREATE INDEX IF NOT EXISTS wallet_nonces_expires_at_idx ON wallet_nonces (expires_at);
+    `
+  },
+  {
+    version: 4,
+    name: "admin_audit_log",
+    sql: `
+      CREATE TABLE IF NOT EXISTS admin_audit_log (
+        id bigserial PRIMARY KEY,
+        actor text NOT NULL,
+        action text NOT NULL,
+        address text,
+        details jsonb NOT NULL DEFAULT '{}',
+        created_at timestamptz NOT NULL DEFAULT now()
+      );
+    `
+  },
+  {
+    version: 5,
+    name: "timestamps_and_confirmation_metadata",
+    sql: `
+      ALTER TABLE allowlist_addresses ADD COLUMN created_at timestamptz NOT NULL DEFAULT now();
+      ALTER TABLE allowlist_addresses ADD COLUMN updated_at timestamptz NOT NULL DEFAULT now();
+      ALTER TABLE confirmed_addresses ADD COLUMN confirmed_at timestamptz NOT NULL DEFAULT now();
+      ALTER TABLE confirmed_addresses ADD COLUMN source text NOT NULL DEFAULT 'legacy';
+      ALTER TABLE confirmed_addresses ADD COLUMN user_agent_hash text;
+      ALTER TABLE confirmed_addresses ADD COLUMN signature text;
+      ALTER TABLE confirmed_addresses ALTER COLUMN source SET DEFAULT 'api';
+      CREATE INDEX confirmed_addresses_confirmed_at_idx ON confirmed_addresses (confirmed_at);
+    `
+  },
+  {
+    version: 6,
+    name: "wallet_destinations",
+    sql: `
+      CREATE TABLE wallet_destinations (
+        id bigserial PRIMARY KEY,
+        source_address text NOT NULL,
+        destination_address text NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        replaced_at timestamptz
+      );
+      CREATE UNIQUE INDEX wallet_destinations_active_idx ON wallet_destinations (source_address)
+        WHERE replaced_at IS NULL;
+    `
+  },
+  {
+    version: 7,
+    name: "event_outbox",
+    sql: `
+      CREATE TABLE event_outbox (
+        id bigserial PRIMARY KEY,
+        event_type text NOT NULL,
+        address text NOT NULL,
+        payload jsonb NOT NULL DEFAULT '{}',
+        created_at timestamptz NOT NULL DEFAULT now()
+      );
+      CREATE TABLE event_deliveries (
+        id bigserial PRIMARY KEY,
+        event_id bigint NOT NULL REFERENCES event_outbox (id) ON DELETE CASCADE,
+        endpoint text NOT NULL,
+        status text NOT NULL DEFAULT 'pending',
+        attempts integer NOT NULL DEFAULT 0,
+        next_attempt_at timestamptz NOT NULL DEFAULT now(),
+        last_error text,
+        delivered_at timestamptz,
+        UNIQUE (event_id, endpoint)
+      );
+      CREATE INDEX event_deliveries_due_idx ON event_deliveries (next_attempt_at) WHERE status = 'pending';
+    `
+  },
+  {
+    version: 8,
+    name: "blocklist",
+    sql: `
+      CREATE TABLE blocked_addresses (
+        address text PRIMARY KEY,
+        reason text NOT NULL,
+        expires_at timestamptz,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      );
+      CREATE TABLE blocked_attempts (
+        id bigserial PRIMARY KEY,
+        address text NOT NULL,
+        reason text NOT NULL,
+        route text NOT NULL,
+        ip_hash text,
+        created_at timestamptz NOT NULL DEFAULT now()
+      );
+    `
+  },
+  {
+    version: 9,
+    name: "webhook_endpoints",
+    sql: `
+      CREATE TABLE webhook_endpoints (
+        name text PRIMARY KEY,
+        registered_at timestamptz NOT NULL DEFAULT now()
+      );
+      INSERT INTO webhook_endpoints(name) SELECT DISTINCT endpoint FROM event_deliveries;
+      INSERT INTO event_deliveries(event_id, endpoint)
+        SELECT e.id, w.name FROM event_outbox e CROSS JOIN webhook_endpoints w
+        ON CONFLICT (event_id, endpoint) DO NOTHING;
+    `
+  }
+];
+
+// Arbitrary constant shared by every instance so concurrent cold starts migrate one at a time.
+const MIGRATION_LOCK_KEY = 7_305_112;
+
+export async function readAppliedVersions(client: PoolClient): Promise<number[]> {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version integer PRIMARY KEY,
+       name text NOT NULL,
+       applied_at timestamptz NOT NULL DEFAULT now()
+     )`
+  );
+  const result = await client.query<{ version: number }>("SELECT version FROM schema_migrations ORDER BY version");
+  return result.rows.map((row) => row.version);
+}
+
+/** Applies pending migrations in order, each in its own transaction. Returns the names applied. */
+export async function runMigrations(client: PoolClient): Promise<string[]> {
+  const applied: string[] = [];
+  await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+  try {
+    const done = new Set(await readAppliedVersions(client));
+    for (const migration of MIGRATIONS) {
+      if (done.has(migration.version)) continue;
+      await client.query("BEGIN");
+      try {
+        await client.query(migration.sql);
+        await client.query("INSERT INTO schema_migrations(version, name) VALUES ($1, $2)", [
+          migration.version,
+          migration.name
+        ]);
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+      }
+      applied.push(`${migration.version}_${migration.name}`);
+    }
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+  }
+  return applied;
+}
@@ -0,0 +1,734 @@
+import type { Pool, PoolClient } from "pg";
+import { sortTiers, TIERS } from "../../../src/lib/tiers.js";
+import { StorageUnavailableError } from "./errors.js";
+import { runMigrations } from "./migrations.js";
+import type {
+  AddressStatus,
+  AllowlistEntry,
+  AllowlistStats,
+  AllowlistStore,
+  AuditContext,
+  BlockEntry,
+  DestinationChange,
+  DestinationMapping,
+  OutboxEventType,
+  UpsertSummary
+} from "./types.js";
+
+const BATCH_SIZE = 500;
+
+type AllowlistRow = {
+  address: string;
+  allocation: number;
+  tiers: string[];
+  merkle_proof: string[] | null;
+};
+
+export function getDatabaseUrl(): string {
+  return (
+    process.env.DATABASE_URL_UNPOOLED ||
+    process.env.POSTGRES_URL_NON_POOLING ||
+    process.env.DATABASE_URL ||
+    process.env.POSTGRES_URL ||
+    ""
+  );
+}
+
+// Module scope outlives a single request on warm serverless instances, so the pool (and its
+// open connections) is shared by every invocation the instance serves.
+let poolPromise: Promise<Pool> | null = null;
+
+function getPool(connectionString: string): Promise<Pool> {
+  if (!poolPromise) {
+    poolPromise = import("pg").then((pgModule) => {
+      const { Pool } = pgModule.default ?? pgModule;
+      const pool = new Pool({
+        connectionString,
+        max: Number.parseInt(process.env.PG_POOL_MAX || "", 10) || 3,
+        idleTimeoutMillis: 10_000
+      });
+      // An idle client dropped by the server must not crash the process; the pool replaces it.
+      pool.on("error", () => undefined);
+      return pool;
+    });
+    poolPromise.catch(() => {
+      poolPromise = null;
+    });
+  }
+  return poolPromise;
+}
+
+let schemaPromise: Promise<string[]> | null = null;
+
+function autoMigrateEnabled(): boolean {
+  return !/^(0|false|no)$/i.test(process.env.DB_AUTO_MIGRATE || "");
+}
+
+// Runs pending migrations once per instance, before the first query. A failure is retried
+// by the next request instead of being cached.
+function ensureSchema(client: PoolClient): Promise<string[]> {
+  if (!schemaPromise) {
+    schemaPromise = runMigrations(client);
+    schemaPromise.catch(() => {
+      schemaPromise = null;
+    });
+  }
+  return schemaPromise;
+}
+
+function toIso(value: Date | string): string {
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+type BlockRow = {
+  address: string;
+  reason: string;
+  expires_at: Date | null;
+};
+
+function toBlock(row: BlockRow): BlockEntry {
+  return { address: row.address, reason: row.reason, expiresAt: row.expires_at ? toIso(row.expires_at) : null };
+}
+
+function toEntry(row: AllowlistRow): AllowlistEntry {
+  return {
+    address: row.address,
+    allocation: row.allocation,
+    tiers: sortTiers(row.tiers ?? []),
+    merkleProof: row.merkle_proof
+  };
+}
+
+async function recordAudit(
+  client: PoolClient,
+  audit: AuditContext | undefined,
+  address: string | null,
+  details: Record<string, unknown>
+): Promise<void> {
+  if (!audit) return;
+  await client.query("INSERT INTO admin_audit_log(actor, action, address, details) VALUES ($1, $2, $3, $4::jsonb)", [
+    audit.actor,
+    audit.action,
+    address,
+    JSON.stringify({ ...audit.details, ...details })
+  ]);
+}
+
+async function recordEvent(
+  client: PoolClient,
+  type: OutboxEventType,
+  address: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const result = await client.query<{ id: string }>(
+    "INSERT INTO event_outbox(event_type, address, payload) VALUES ($1, $2, $3::jsonb) RETURNING id",
+    [type, address, JSON.stringify(payload)]
+  );
+  // A separate statement, so its snapshot follows the outbox lock that endpoint registration waits on.
+  await client.query(
+    "INSERT INTO event_deliveries(event_id, endpoint) SELECT $1, name FROM webhook_endpoints",
+    [result.rows[0].id]
+  );
+}
+
+function buildBatchUpsertQuery(size: number): string {
+  const valuesSql = Array.from(
+    { length: size },
+    (_, i) => `($${i * 4 + 1}, $${i * 4 + 2}::integer, $${i * 4 + 3}::text[], $${i * 4 + 4}::text[])`
+  ).join(", ");
+  return (
+    `INSERT INTO allowlist_addresses(address, allocation, tiers, merkle_proof) VALUES ${valuesSql} ` +
+    "ON CONFLICT (address) DO UPDATE SET allocation = EXCLUDED.allocation, tiers = EXCLUDED.tiers, " +
+    "merkle_proof = EXCLUDED.merkle_proof, updated_at = now() " +
+    "WHERE allowlist_addresses.allocation IS DISTINCT FROM EXCLUDED.allocation " +
+    "OR allowlist_addresses.tiers IS DISTINCT FROM EXCLUDED.tiers " +
+    "OR allowlist_addresses.merkle_proof IS DISTINCT FROM EXCLUDED.merkle_proof " +
+    "RETURNING (xmax = 0) AS inserted"
+  );
+}
+
+async function upsertEntries(client: PoolClient, entries: AllowlistEntry[]): Promise<UpsertSummary> {
+  const summary: UpsertSummary = { inserted: 0, updated: 0 };
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    const batch = entries.slice(i, i + BATCH_SIZE);
+    const params = batch.flatMap((entry) => [entry.address, entry.allocation, entry.tiers, entry.merkleProof]);
+    const result = await client.query<{ inserted: boolean }>(buildBatchUpsertQuery(batch.length), params);
+    for (const row of result.rows) {
+      if (row.inserted) summary.inserted += 1;
+      else summary.updated += 1;
+    }
+  }
+  return summary;
+}
+
+async function deleteEntries(client: PoolClient, addresses: string[]): Promise<number> {
+  if (addresses.length === 0) return 0;
+  const result = await client.query("DELETE FROM allowlist_addresses WHERE address = ANY($1::text[])", [addresses]);
+  return result.rowCount ?? 0;
+}
+
+async function selectStatuses(client: PoolClient, addresses: string[]): Promise<AddressStatus[]> {
+  const result = await client.query<AllowlistRow & { requested: string; confirmed_at: Date | null }>(
+    `SELECT q.address AS requested, a.address, a.allocation, a.tiers, a.merkle_proof, c.confirmed_at
+       FROM unnest($1::text[]) AS q(address)
+       LEFT JOIN allowlist_addresses a ON a.address = q.address
+       LEFT JOIN confirmed_addresses c ON c.address = q.address`,
+    [addresses]
+  );
+  const byAddress = new Map(result.rows.map((row) => [row.requested, row]));
+  return addresses.map((address) => {
+    const row = byAddress.get(address);
+    const confirmedAt = row?.confirmed_at ? toIso(row.confirmed_at) : null;
+    return { address, entry: row?.address ? toEntry(row) : null, confirmed: confirmedAt !== null, confirmedAt };
+  });
+}
+
+async function upsertMeta(client: PoolClient, key: string, value: string): Promise<void> {
+  await client.query(
+    "INSERT INTO allowlist_meta(key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value",
+    [key, value]
+  );
+}
+
+async function selectDestination(client: PoolClient, source: string): Promise<DestinationMapping | null> {
+  const result = await client.query<{ destination_address: string; created_at: Date }>(
+    `SELECT destination_address, created_at FROM wallet_destinations
+      WHERE source_address = $1 AND replaced_at IS NULL`,
+    [source]
+  );
+  const row = result.rows[0];
+  return row ? { source, destination: row.destination_address, updatedAt: toIso(row.created_at) } : null;
+}
+
+/** Must run inside a transaction: the active row stays locked until it commits. */
+async function replaceDestination(client: PoolClient, source: string, destination: string): Promise<DestinationChange> {
+  // Lock the active row so two concurrent changes cannot both replace it.
+  const current = await client.query<{ id: string; destination_address: string; created_at: Date }>(
+    `SELECT id, destination_address, created_at FROM wallet_destinations
+      WHERE source_address = $1 AND replaced_at IS NULL
+      FOR UPDATE`,
+    [source]
+  );
+  const active = current.rows[0];
+  if (active && active.destination_address === destination) {
+    return { mapping: { source, destination, updatedAt: toIso(active.created_at) }, changed: false };
+  }
+  if (active) {
+    await client.query("UPDATE wallet_destinations SET replaced_at = now() WHERE id = $1", [active.id]);
+  }
+  const inserted = await client.query<{ created_at: Date }>(
+    `INSERT INTO wallet_destinations(source_address, destination_address) VALUES ($1, $2)
+     RETURNING created_at`,
+    [source, destination]
+  );
+  return {
+    mapping: { source, destination, updatedAt: toIso(inserted.rows[0].created_at) },
+    changed: true
+  };
+}
+
+export function createPostgresStore(connectionString: string = getDatabaseUrl()): AllowlistStore {
+  const withClient = async <T>(
+    fn: (client: PoolClient) => Promise<T>,
+    { autoMigrate = autoMigrateEnabled() } = {}
+  ): Promise<T> => {
+    if (!connectionString) {
+      throw new StorageUnavailableError("DATABASE_URL is missing.");
+    }
+    let client: PoolClient;
+    try {
+      const pool = await getPool(connectionString);
+      client = await pool.connect();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new StorageUnavailableError(`Could not connect to Postgres: ${reason}`);
+    }
+    try {
+      if (autoMigrate) {
+        await ensureSchema(client);
+      }
+      return await fn(client);
+    } catch (error) {
+      // SQLSTATE classes 08 (connection exception) and 57P (server shutting down) mean an outage,
+      // not a bad query.
+      const sqlState = (error as { code?: unknown }).code;
+      if (error instanceof Error && typeof sqlState === "string" && /^(08|57P)/.test(sqlState)) {
+        throw new StorageUnavailableError(`Postgres connection failed: ${error.message}`);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  };
+
+  const withTransaction = <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> =>
+    withClient(async (client) => {
+      await client.query("BEGIN");
+      try {
+        const result = await fn(client);
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+    });
+
+  return {
+    async getAllowlistEntry(address) {
+      return withClient(async (client) => {
+        const result = await client.query<AllowlistRow>(
+          "SELECT address, allocation, tiers, merkle_proof FROM allowlist_addresses WHERE address = $1 LIMIT 1",
+          [address]
+        );
+        return result.rows[0] ? toEntry(result.rows[0]) : null;
+      });
+    },
+
+    async listAllowlistEntries() {
+      return withClient(async (client) => {
+        const result = await client.query<AllowlistRow>(
+          "SELECT address, allocation, tiers, merkle_proof FROM allowlist_addresses ORDER BY address"
+        );
+        return result.rows.map(toEntry);
+      });
+    },
+
+    async upsertAllowlistEntries(entries, audit) {
+      return withTransaction(async (client) => {
+        const summary = await upsertEntries(client, entries);
+        await recordAudit(client, audit, entries.length === 1 ? entries[0].address : null, {
+          count: entries.length,
+          ...summary
+        });
+        return summary;
+      });
+    },
+
+    async removeAllowlistEntries(addresses, audit) {
+      if (addresses.length === 0) return 0;
+      return withTransaction(async (client) => {
+        const removed = await deleteEntries(client, addresses);
+        await recordAudit(client, audit, addresses.length === 1 ? addresses[0] : null, {
+          count: addresses.length,
+          removed
+        });
+        return removed;
+      });
+    },
+
+    async applyAllowlistChanges(changes, audit) {
+      return withTransaction(async (client) => {
+        const removed = await deleteEntries(client, changes.removals);
+        const summary = await upsertEntries(client, changes.upserts);
+        for (const [key, value] of Object.entries(changes.meta ?? {})) {
+          await upsertMeta(client, key, value);
+        }
+        await recordAudit(client, audit, null, { ...summary, removed });
+        return { ...summary, removed };
+      });
+    },
+
+    async confirmAddress(address, input, destination) {
+      return withTransaction(async (client) => {
+        // The outer SELECT reads the pre-insert snapshot, so at most one branch yields a row.
+        const result = await client.query<{ confirmed_at: Date; inserted: boolean }>(
+          `WITH inserted AS (
+             INSERT INTO confirmed_addresses(address, source, user_agent_hash, signature)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (address) DO NOTHING
+             RETURNING confirmed_at
+           )
+           SELECT confirmed_at, true AS inserted FROM inserted
+           UNION ALL
+           SELECT confirmed_at, false AS inserted FROM confirmed_addresses WHERE address = $1`,
+          [address, input.source, input.userAgentHash, input.signature]
+        );
+        // A concurrent confirmation that committed after this statement's snapshot skips the insert
+        // and is invisible to the SELECT too; a second statement gets a fresh snapshot and sees it.
+        let row = result.rows[0];
+        if (!row) {
+          const existing = await client.query<{ confirmed_at: Date; inserted: boolean }>(
+            "SELECT confirmed_at, false AS inserted FROM confirmed_addresses WHERE address = $1",
+            [address]
+          );
+          row = existing.rows[0];
+        }
+        if (!row) {
+          throw new Error(`Confirmation for ${address} was neither inserted nor found`);
+        }
+        const confirmedAt = toIso(row.confirmed_at);
+        if (row.inserted) {
+          await recordEvent(client, "confirmation.created", address, { source: input.source, confirmedAt });
+        }
+        const change = destination ? await replaceDestination(client, address, destination) : null;
+        return {
+          inserted: row.inserted,
+          confirmedAt,
+          destination: change ? change.mapping : await selectDestination(client, address),
+          destinationChanged: change?.changed ?? false
+        };
+      });
+    },
+
+    async isConfirmed(address) {
+      return withClient(async (client) => {
+        const result = await client.query("SELECT 1 FROM confirmed_addresses WHERE address = $1 LIMIT 1", [address]);
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    async revokeConfirmation(address, audit) {
+      return withTransaction(async (client) => {
+        const result = await client.query("DELETE FROM confirmed_addresses WHERE address = $1", [address]);
+        const revoked = (result.rowCount ?? 0) > 0;
+        await recordAudit(client, audit, address, { revoked });
+        if (revoked) {
+          await recordEvent(client, "confirmation.revoked", address, {
+            revokedAt: new Date().toISOString(),
+            actor: audit?.actor ?? null
+          });
+        }
+        return revoked;
+      });
+    },
+
+    async getAddressStatus(address) {
+      return withClient(async (client) => (await selectStatuses(client, [address]))[0]);
+    },
+
+    async getAddressStatuses(addresses) {
+      if (addresses.length === 0) return [];
+      return withClient((client) => selectStatuses(client, addresses));
+    },
+
+    async listConfirmations(query) {
+      return withClient(async (client) => {
+        const where =
+          "($1::text IS NULL OR $1 = ANY(a.tiers)) AND ($2::text IS NULL OR c.address LIKE $2 || '%') " +
+          "AND ($3::timestamptz IS NULL OR c.confirmed_at >= $3) AND ($4::timestamptz IS NULL OR c.confirmed_at < $4)";
+        const filters = [
+          query.tier ?? null,
+          query.addressPrefix ?? null,
+          query.since?.toISOString() ?? null,
+          query.until?.toISOString() ?? null
+        ];
+        const countResult = await client.query<{ total: string }>(
+          `SELECT count(*) AS total FROM confirmed_addresses c
+             LEFT JOIN allowlist_addresses a ON a.address = c.address
+            WHERE ${where}`,
+          filters
+        );
+        const pageResult = await client.query<{
+          address: string;
+          allocation: number | null;
+          tiers: string[] | null;
+          confirmed_at: Date;
+          source: string;
+        }>(
+          `SELECT c.address, a.allocation, a.tiers, c.confirmed_at, c.source FROM confirmed_addresses c
+             LEFT JOIN allowlist_addresses a ON a.address = c.address
+            WHERE ${where}
+            ORDER BY c.confirmed_at DESC, c.address
+            LIMIT $5 OFFSET $6`,
+          [...filters, query.limit, query.offset]
+        );
+        return {
+          total: Number(countResult.rows[0]?.total ?? 0),
+          items: pageResult.rows.map((row) => ({
+            address: row.address,
+            allocation: row.allocation,
+            tiers: sortTiers(row.tiers ?? []),
+            confirmedAt: toIso(row.confirmed_at),
+            source: row.source
+          }))
+        };
+      });
+    },
+
+    async getActiveBlock(address) {
+      return withClient(async (client) => {
+        const result = await client.query<BlockRow>(
+          `SELECT address, reason, expires_at FROM blocked_addresses
+            WHERE address = $1 AND (expires_at IS NULL OR expires_at > now())`,
+          [address]
+        );
+        return result.rows[0] ? toBlock(result.rows[0]) : null;
+      });
+    },
+
+    async listBlocks() {
+      return withClient(async (client) => {
+        const result = await client.query<BlockRow>(
+          "SELECT address, reason, expires_at FROM blocked_addresses ORDER BY address"
+        );
+        return result.rows.map(toBlock);
+      });
+    },
+
+    async upsertBlocks(entries, audit) {
+      return withTransaction(async (client) => {
+        const summary: UpsertSummary = { inserted: 0, updated: 0 };
+        for (const entry of entries) {
+          const result = await client.query<{ inserted: boolean }>(
+            `INSERT INTO blocked_addresses(address, reason, expires_at) VALUES ($1, $2, $3)
+             ON CONFLICT (address) DO UPDATE
+               SET reason = EXCLUDED.reason, expires_at = EXCLUDED.expires_at, updated_at = now()
+               WHERE blocked_addresses.reason IS DISTINCT FROM EXCLUDED.reason
+                  OR blocked_addresses.expires_at IS DISTINCT FROM EXCLUDED.expires_at
+             RETURNING (xmax = 0) AS inserted`,
+            [entry.address, entry.reason, entry.expiresAt]
+          );
+          for (const row of result.rows) {
+            if (row.inserted) summary.inserted += 1;
+            else summary.updated += 1;
+          }
+        }
+        await recordAudit(client, audit, entries.length === 1 ? entries[0].address : null, {
+          count: entries.length,
+          ...summary
+        });
+        return summary;
+      });
+    },
+
+    async removeBlocks(addresses, audit) {
+      if (addresses.length === 0) return 0;
+      return withTransaction(async (client) => {
+        const result = await client.query("DELETE FROM blocked_addresses WHERE address = ANY($1::text[])", [addresses]);
+        const removed = result.rowCount ?? 0;
+        await recordAudit(client, audit, addresses.length === 1 ? addresses[0] : null, {
+          count: addresses.length,
+          removed
+        });
+        return removed;
+      });
+    },
+
+    async recordBlockedAttempt(attempt) {
+      await withClient((client) =>
+        client.query("INSERT INTO blocked_attempts(address, reason, route, ip_hash) VALUES ($1, $2, $3, $4)", [
+          attempt.address,
+          attempt.reason,
+          attempt.route,
+          attempt.ipHash
+        ])
+      );
+    },
+
+    async getDestination(source) {
+      return withClient((client) => selectDestination(client, source));
+    },
+
+    async setDestination(source, destination) {
+      return withTransaction((client) => replaceDestination(client, source, destination));
+    },
+
+    async getMintProof(address) {
+      return withClient(async (client) => {
+        const result = await client.query<{ allocation: number; merkle_proof: string[] | null; merkle_root: string | null }>(
+          `SELECT a.allocation, a.merkle_proof, m.value AS merkle_root
+             FROM allowlist_addresses a
+             JOIN confirmed_addresses c ON c.address = a.address
+             LEFT JOIN allowlist_meta m ON m.key = 'merkle_root'
+            WHERE a.address = $1
+            LIMIT 1`,
+          [address]
+        );
+        const row = result.rows[0];
+        if (!row || !row.merkle_proof) return null;
+        return { allocation: row.allocation, proof: row.merkle_proof, root: row.merkle_root };
+      });
+    },
+
+    async getStats(since) {
+      return withClient(async (client) => {
+        const tierResult = await client.query<{ tier: string; allowlisted: string; confirmed: string }>(
+          `SELECT t.tier, count(*) AS allowlisted, count(c.address) AS confirmed
+             FROM allowlist_addresses a
+             CROSS JOIN LATERAL unnest(a.tiers) AS t(tier)
+             LEFT JOIN confirmed_addresses c ON c.address = a.address
+            GROUP BY t.tier`
+        );
+        const totalResult = await client.query<{ allowlisted: string; confirmed: string }>(
+          `SELECT count(*) AS allowlisted, count(c.address) AS confirmed
+             FROM allowlist_addresses a
+             LEFT JOIN confirmed_addresses c ON c.address = a.address`
+        );
+        const hourlyResult = await client.query<{ hour: Date; confirmed: string }>(
+          `SELECT date_trunc('hour', c.confirmed_at) AS hour, count(*) AS confirmed
+             FROM confirmed_addresses c
+             JOIN allowlist_addresses a ON a.address = c.address
+            WHERE c.confirmed_at >= $1
+            GROUP BY 1
+            ORDER BY 1`,
+          [since.toISOString()]
+        );
+        const tiers = Object.fromEntries(TIERS.map((tier) => [tier, { allowlisted: 0, confirmed: 0 }]));
+        for (const row of tierResult.rows) {
+          if (tiers[row.tier]) {
+            tiers[row.tier] = { allowlisted: Number(row.allowlisted), confirmed: Number(row.confirmed) };
+          }
+        }
+        return {
+          allowlisted: Number(totalResult.rows[0]?.allowlisted ?? 0),
+          confirmed: Number(totalResult.rows[0]?.confirmed ?? 0),
+          tiers: tiers as AllowlistStats["tiers"],
+          hourly: hourlyResult.rows.map((row) => ({ hour: toIso(row.hour), confirmed: Number(row.confirmed) }))
+        };
+      });
+    },
+
+    async getMeta(key) {
+      return withClient(async (client) => {
+        const result = await client.query<{ value: string }>("SELECT value FROM allowlist_meta WHERE key = $1", [key]);
+        return result.rows[0]?.value ?? null;
+      });
+    },
+
+    async setMeta(key, value) {
+      await withClient((client) => upsertMeta(client, key, value));
+    },
+
+    async createNonce(nonce, address, expiresAt) {
+      await withClient(async (client) => {
+        // Like the memory store, drop expired challenges as new ones are issued so the table stays small.
+        await client.query("DELETE FROM wallet_nonces WHERE expires_at <= now()");
+        await client.query("INSERT INTO wallet_nonces(nonce, address, expires_at) VALUES ($1, $2, $3)", [
+          nonce,
+          address,
+          expiresAt.toISOString()
+        ]);
+      });
+    },
+
+    async consumeNonce(nonce, address) {
+      return withClient(async (client) => {
+        const result = await client.query(
+          `UPDATE wallet_nonces SET consumed_at = now()
+            WHERE nonce = $1 AND address = $2 AND consumed_at IS NULL AND expires_at > now()
+            RETURNING nonce`,
+          [nonce, address]
+        );
+        return (result.rowCount ?? 0) > 0;
+      });
+    },
+
+    async registerWebhookEndpoints(endpoints) {
+      if (endpoints.length === 0) return 0;
+      const known = await withClient((client) =>
+        client.query("SELECT 1 FROM webhook_endpoints WHERE name = ANY($1::text[])", [endpoints])
+      );
+      if ((known.rowCount ?? 0) >= new Set(endpoints).size) return 0;
+
+      return withTransaction(async (client) => {
+        // Blocks event writers until commit: an event written concurrently either is visible to the
+        // backfill below or sees the new endpoint when it adds its own deliveries.
+        await client.query("LOCK TABLE event_outbox IN SHARE MODE");
+        const added = await client.query<{ name: string }>(
+          `INSERT INTO webhook_endpoints(name) SELECT DISTINCT unnest($1::text[])
+           ON CONFLICT (name) DO NOTHING RETURNING name`,
+          [endpoints]
+        );
+        if (added.rows.length > 0) {
+          await client.query(
+            `INSERT INTO event_deliveries(event_id, endpoint)
+             SELECT e.id, ep.name FROM event_outbox e CROSS JOIN unnest($1::text[]) AS ep(name)
+             ON CONFLICT (event_id, endpoint) DO NOTHING`,
+            [added.rows.map((row) => row.name)]
+          );
+        }
+        return added.rows.length;
+      });
+    },
+
+    async claimDeliveries(endpoints, limit, leaseMs) {
+      if (endpoints.length === 0) return [];
+      return withClient(async (client) => {
+        const result = await client.query<{
+          id: string;
+          endpoint: string;
+          attempts: number;
+          event_id: string;
+          event_type: OutboxEventType;
+          address: string;
+          payload: Record<string, unknown>;
+          created_at: Date;
+        }>(
+          `WITH due AS (
+             SELECT id FROM event_deliveries
+              WHERE status = 'pending' AND next_attempt_at <= now() AND endpoint = ANY($1::text[])
+              ORDER BY next_attempt_at, id
+              LIMIT $2
+              FOR UPDATE SKIP LOCKED
+           )
+           UPDATE event_deliveries d
+              SET attempts = d.attempts + 1, next_attempt_at = now() + $3 * interval '1 millisecond'
+             FROM due, event_outbox e
+            WHERE d.id = due.id AND e.id = d.event_id
+           RETURNING d.id, d.endpoint, d.attempts, e.id AS event_id, e.event_type, e.address, e.payload, e.created_at`,
+          [endpoints, limit, leaseMs]
+        );
+        return result.rows.map((row) => ({
+          id: String(row.id),
+          endpoint: row.endpoint,
+          attempts: row.attempts,
+          event: {
+            id: String(row.event_id),
+            type: row.event_type,
+            address: row.address,
+            payload: row.payload,
+            createdAt: toIso(row.created_at)
+          }
+        }));
+      });
+    },
+
+    async completeDelivery(id, outcome) {
+      await withClient((client) => {
+        if (outcome.delivered) {
+          return client.query(
+            "UPDATE event_deliveries SET status = 'delivered', delivered_at = now(), last_error = NULL WHERE id = $1",
+            [id]
+          );
+        }
+        return client.query(
+          `UPDATE event_deliveries
+              SET status = CASE WHEN $3::timestamptz IS NULL THEN 'dead' ELSE 'pending' END,
+                  next_attempt_at = coalesce($3::timestamptz, next_attempt_at),
+                  last_error = $2
+            WHERE id = $1`,
+          [id, outcome.error, outcome.retryAt?.toISOString() ?? null]
+        );
+      });
+    },
+
+    async replayDeliveries(query, audit) {
+      return withTransaction(async (client) => {
+        const result = await client.query(
+          `UPDATE event_deliveries
+              SET status = 'pending', attempts = 0, next_attempt_at = now(), last_error = NULL, delivered_at = NULL
+            WHERE ($1::text IS NULL OR endpoint = $1)
+              AND (CASE WHEN $2::bigint[] IS NULL THEN status = 'dead' ELSE event_id = ANY($2::bigint[]) END)`,
+          [query.endpoint ?? null, query.eventIds ?? null]
+        );
+        const replayed = result.rowCount ?? 0;
+        await recordAudit(client, audit, null, { ...query, replayed });
+        return replayed;
+      });
+    },
+
+    async migrate() {
+      // Runs even with DB_AUTO_MIGRATE off; that flag only controls the implicit run.
+      return withClient((client) => runMigrations(client), { autoMigrate: false });
+    },
+
+    async close() {
+      const pending = poolPromise;
+      poolPromise = null;
+      if (pending) {
+        await (await pending).end();
+      }
+    }
+  };
+}
@@ -0,0 +1,212 @@
+import type { Tier } from "../../../src/lib/tiers.js";
+
+export type AllowlistEntry = {
+  address: string;
+  allocation: number;
+  tiers: Tier[];
+  merkleProof: string[] | null;
+};
+
+export type MintProofRecord = {
+  allocation: number;
+  proof: string[];
+  root: string | null;
+};
+
+export type UpsertSummary = {
+  inserted: number;
+  updated: number;
+};
+
+export type AllowlistChanges = {
+  upserts: AllowlistEntry[];
+  removals: string[];
+  meta?: Record<string, string>;
+};
+
+export type AllowlistChangeSummary = UpsertSummary & {
+  removed: number;
+};
+
+/** Who performed an admin mutation; recorded in the audit log in the same write. */
+export type AuditContext = {
+  actor: string;
+  action: string;
+  details?: Record<string, unknown>;
+};
+
+/** Provenance stored with a confirmation. The user agent is only kept as a hash. */
+export type ConfirmationInput = {
+  source: string;
+  userAgentHash: string | null;
+  signature: string | null;
+};
+
+export type ConfirmationResult = {
+  /** False when the address had already been confirmed; `confirmedAt` is then the original time. */
+  inserted: boolean;
+  confirmedAt: string;
+  /** The active destination after the call; `null` when the mint goes to the address itself. */
+  destination: DestinationMapping | null;
+  /** True when a destination was passed and it replaced a different one (or none). */
+  destinationChanged: boolean;
+};
+
+/** The Monad wallet that receives the mint for an allowlisted source wallet. */
+export type DestinationMapping = {
+  source: string;
+  destination: string;
+  updatedAt: string;
+};
+
+export type DestinationChange = {
+  mapping: DestinationMapping;
+  /** False when the source already pointed at this destination. */
+  changed: boolean;
+};
+
+export type AddressStatus = {
+  address: string;
+  entry: AllowlistEntry | null;
+  confirmed: boolean;
+  confirmedAt: string | null;
+};
+
+export type ConfirmationListQuery = {
+  limit: number;
+  offset: number;
+  tier?: Tier;
+  addressPrefix?: string;
+  since?: Date;
+  until?: Date;
+};
+
+export type ConfirmationRecord = {
+  address: string;
+  allocation: number | null;
+  tiers: Tier[];
+  confirmedAt: string;
+  source: string;
+};
+
+export type ConfirmationPage = {
+  items: ConfirmationRecord[];
+  total: number;
+};
+
+export type TierCounts = {
+  allowlisted: number;
+  confirmed: number;
+};
+
+export type HourlyConfirmations = {
+  /** Start of the hour, ISO 8601 UTC. Hours without confirmations are omitted. */
+  hour: string;
+  confirmed: number;
+};
+
+/** Confirmations only count while the address is still on the allowlist. */
+export type AllowlistStats = TierCounts & {
+  tiers: Record<Tier, TierCounts>;
+  hourly: HourlyConfirmations[];
+};
+
+/** `expiresAt: null` blocks for good. */
+export type BlockEntry = {
+  address: string;
+  reason: string;
+  expiresAt: string | null;
+};
+
+export type BlockedAttempt = {
+  address: string;
+  reason: string;
+  route: string;
+  ipHash: string | null;
+};
+
+export type OutboxEventType = "confirmation.created" | "confirmation.revoked";
+
+/** Written in the same transaction as the change it describes. */
+export type OutboxEvent = {
+  id: string;
+  type: OutboxEventType;
+  address: string;
+  payload: Record<string, unknown>;
+  createdAt: string;
+};
+
+/** One event on its way to one webhook endpoint. `attempts` includes the current one. */
+export type OutboxDelivery = {
+  id: string;
+  endpoint: string;
+  attempts: number;
+  event: OutboxEvent;
+};
+
+/** A failure with `retryAt: null` moves the delivery to the dead-letter state. */
+export type DeliveryOutcome = { delivered: true } | { delivered: false; error: string; retryAt: Date | null };
+
+/** Without `eventIds` only dead deliveries are replayed; with them, any status is. */
+export type ReplayQuery = {
+  endpoint?: string;
+  eventIds?: string[];
+};
+
+/**
+ * Everything the API routes and scripts need from persistence. Addresses are always passed
+ * lowercased; implementations do not normalise them again.
+ */
+export type AllowlistStore = {
+  getAllowlistEntry: (address: string) => Promise<AllowlistEntry | null>;
+  listAllowlistEntries: () => Promise<AllowlistEntry[]>;
+  upsertAllowlistEntries: (entries: AllowlistEntry[], audit?: AuditContext) => Promise<UpsertSummary>;
+  removeAllowlistEntries: (addresses: string[], audit?: AuditContext) => Promise<number>;
+  /** Applies upserts, removals and meta updates atomically: either all of them land or none. */
+  applyAllowlistChanges: (changes: AllowlistChanges, audit?: AuditContext) => Promise<AllowlistChangeSummary>;
+  /**
+   * Confirms the address and, when `destination` is given, makes it the active destination in
+   * the same transaction, so a confirmation never lands without the destination it was signed for.
+   */
+  confirmAddress: (address: string, input: ConfirmationInput, destination?: string | null) => Promise<ConfirmationResult>;
+  isConfirmed: (address: string) => Promise<boolean>;
+  revokeConfirmation: (address: string, audit?: AuditContext) => Promise<boolean>;
+  getAddressStatus: (address: string) => Promise<AddressStatus>;
+  /** One status per input address, in input order. */
+  getAddressStatuses: (addresses: string[]) => Promise<AddressStatus[]>;
+  listConfirmations: (query: ConfirmationListQuery) => Promise<ConfirmationPage>;
+  /** The block for `address` unless it has expired. */
+  getActiveBlock: (address: string) => Promise<BlockEntry | null>;
+  /** Every block, expired ones included, ordered by address. */
+  listBlocks: () => Promise<BlockEntry[]>;
+  upsertBlocks: (entries: BlockEntry[], audit?: AuditContext) => Promise<UpsertSummary>;
+  removeBlocks: (addresses: string[], audit?: AuditContext) => Promise<number>;
+  recordBlockedAttempt: (attempt: BlockedAttempt) => Promise<void>;
+  getDestination: (source: string) => Promise<DestinationMapping | null>;
+  /** Replaces the source's active destination; earlier ones are kept as history. */
+  setDestination: (source: string, destination: string) => Promise<DestinationChange>;
+  getMintProof: (address: string) => Promise<MintProofRecord | null>;
+  /** Campaign totals, with hourly confirmation counts from `since` onwards. */
+  getStats: (since: Date) => Promise<AllowlistStats>;
+  getMeta: (key: string) => Promise<string | null>;
+  setMeta: (key: string, value: string) => Promise<void>;
+  createNonce: (nonce: string, address: string, expiresAt: Date) => Promise<void>;
+  consumeNonce: (nonce: string, address: string) => Promise<boolean>;
+  /**
+   * Adds endpoints that are not registered yet and creates their deliveries for every past event;
+   * events recorded later get a delivery per registered endpoint as they are written. Returns how
+   * many endpoints were new.
+   */
+  registerWebhookEndpoints: (endpoints: string[]) => Promise<number>;
+  /**
+   * Leases up to `limit` due deliveries for `endpoints` for `leaseMs`, so concurrent dispatchers
+   * do not send the same delivery twice.
+   */
+  claimDeliveries: (endpoints: string[], limit: number, leaseMs: number) => Promise<OutboxDelivery[]>;
+  completeDelivery: (id: string, outcome: DeliveryOutcome) => Promise<void>;
+  /** Puts matching deliveries back in the queue; returns how many. */
+  replayDeliveries: (query: ReplayQuery, audit?: AuditContext) => Promise<number>;
+  /** Brings the schema up to date and returns the migrations it applied. */
+  migrate: () => Promise<string[]>;
+  close: () => Promise<void>;
+};
@@ -0,0 +1,114 @@
+import { createHmac } from "node:crypto";
+import { getStore, type DeliveryOutcome, type OutboxDelivery } from "./storage/index.js";
+
+export type WebhookEndpoint = {
+  name: string;
+  url: string;
+  secret: string;
+};
+
+export type DispatchSummary = {
+  delivered: number;
+  retrying: number;
+  dead: number;
+};
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Longer than one request can take, so a crashed dispatcher's claims come back on their own.
+const LEASE_MS = 2 * 60 * 1000;
+
+export const SIGNATURE_HEADER = "x-woollyeggs-signature";
+export const TIMESTAMP_HEADER = "x-woollyeggs-timestamp";
+
+/**
+ * Endpoints from `WEBHOOK_ENDPOINTS`, a JSON array of `{ name, url, secret }`. The name keys
+ * delivery state, so renaming an endpoint re-delivers its whole history. An endpoint dropped from
+ * the list stays registered and its deliveries wait for it to come back.
+ */
+export function loadWebhookEndpoints(): WebhookEndpoint[] {
+  const raw = process.env.WEBHOOK_ENDPOINTS || "";
+  if (!raw.trim()) return [];
+  const parsed: unknown = JSON.parse(raw);
+  if (!Array.isArray(parsed)) {
+    throw new Error("WEBHOOK_ENDPOINTS must be a JSON array.");
+  }
+  return parsed.map((value, index) => {
+    const item = (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>;
+    const { name, url, secret } = item;
+    if (typeof name !== "string" || !name || typeof url !== "string" || typeof secret !== "string" || !secret) {
+      throw new Error(`WEBHOOK_ENDPOINTS[${index}] needs a name, url and secret.`);
+    }
+    return { name, url, secret };
+  });
+}
+
+/** `sha256=<hex HMAC of "<timestamp>.<body>">`; receivers recompute it with the shared secret. */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/** 30s, 1m, 2m, … capped at 6h; null once the attempts are used up. */
+export function nextRetryAt(attempts: number, now: number = Date.now()): Date | null {
+  if (attempts >= MAX_ATTEMPTS) return null;
+  return new Date(now + Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempts - 1)));
+}
+
+async function deliver(endpoint: WebhookEndpoint, delivery: OutboxDelivery): Promise<DeliveryOutcome> {
+  const body = JSON.stringify({
+    id: delivery.event.id,
+    type: delivery.event.type,
+    address: delivery.event.address,
+    occurredAt: delivery.event.createdAt,
+    data: delivery.event.payload
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-WoollyEggs-Event": delivery.event.type,
+        "X-WoollyEggs-Delivery": delivery.id,
+        [TIMESTAMP_HEADER]: timestamp,
+        [SIGNATURE_HEADER]: signWebhook(endpoint.secret, timestamp, body)
+      },
+      body,
+      signal: controller.signal
+    });
+    if (response.ok) {
+      return { delivered: true };
+    }
+    return { delivered: false, error: `HTTP ${response.status}`, retryAt: nextRetryAt(delivery.attempts) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { delivered: false, error: reason, retryAt: nextRetryAt(delivery.attempts) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Sends every due delivery, one batch at a time, until none are left or `maxBatches` is hit. */
+export async function dispatchWebhooks(batchSize = 25, maxBatches = 20): Promise<DispatchSummary> {
+  const endpoints = new Map(loadWebhookEndpoints().map((endpoint) => [endpoint.name, endpoint]));
+  const summary: DispatchSummary = { delivered: 0, retrying: 0, dead: 0 };
+  const store = getStore();
+  await store.registerWebhookEndpoints([...endpoints.keys()]);
+
+  for (let batch = 0; batch < maxBatches; batch += 1) {
+    const due = await store.claimDeliveries([...endpoints.keys()], batchSize, LEASE_MS);
+    for (const delivery of due) {
+      const outcome = await deliver(endpoints.get(delivery.endpoint) as WebhookEndpoint, delivery);
+      await store.completeDelivery(delivery.id, outcome);
+      if (outcome.delivered) summary.delivered += 1;
+      else if (outcome.retryAt) summary.retrying += 1;
+      else summary.dead += 1;
+    }
+    if (due.length < batchSize) break;
+  }
+  return summary;
+}
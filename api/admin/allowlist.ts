@@ -0,0 +1,118 @@
+import { authenticateAdmin, mergeEntryInput, parseEntryInput, type EntryInput } from "../_lib/admin.js";
+import { sendError, sendUnexpectedError } from "../_lib/errors.js";
+import { readJsonBody, readQuery, readString, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { getStore } from "../_lib/storage/index.js";
+import { normalizeAddress } from "../../src/lib/address.js";
+
+const MAX_BULK_ENTRIES = 5000;
+
+async function handleLookup(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const address = normalizeAddress(readQuery(req, "address"));
+  if (!address) {
+    sendError(res, "INVALID_ADDRESS", "Pass ?address=0x…");
+    return;
+  }
+
+  const status = await getStore().getAddressStatus(address);
+  res.status(200).json({
+    ok: true,
+    address: status.address,
+    allowlisted: status.entry !== null,
+    allocation: status.entry?.allocation ?? null,
+    tiers: status.entry?.tiers ?? [],
+    hasProof: Boolean(status.entry?.merkleProof),
+    confirmed: status.confirmed,
+    confirmedAt: status.confirmedAt
+  });
+}
+
+async function handleUpsert(req: ApiRequest, res: ApiResponse, actor: string): Promise<void> {
+  const body = readJsonBody(req);
+  const bulk = Array.isArray(body.entries);
+  const inputs = bulk ? (body.entries as unknown[]) : [body];
+
+  if (inputs.length === 0 || inputs.length > MAX_BULK_ENTRIES) {
+    sendError(res, "INVALID_REQUEST", `Send between 1 and ${MAX_BULK_ENTRIES} entries.`);
+    return;
+  }
+
+  const entries: EntryInput[] = [];
+  const invalid: number[] = [];
+  inputs.forEach((input, index) => {
+    const entry = parseEntryInput(input);
+    if (entry) entries.push(entry);
+    else invalid.push(index);
+  });
+
+  if (invalid.length > 0) {
+    sendError(res, "INVALID_REQUEST", "Some entries are invalid.", { invalid: invalid.slice(0, 100) });
+    return;
+  }
+
+  const deduped = [...new Map(entries.map((entry) => [entry.address, entry])).values()];
+  const store = getStore();
+  const statuses = await store.getAddressStatuses(deduped.map((entry) => entry.address));
+  const merged = deduped.map((input, index) => mergeEntryInput(input, statuses[index].entry));
+
+  // A confirmed wallet must be able to fetch a mint proof, so its allocation only changes through an import.
+  const wouldLoseProof = merged
+    .filter((entry, index) => statuses[index].confirmed && !entry.merkleProof)
+    .map((entry) => entry.address);
+  if (wouldLoseProof.length > 0) {
+    sendError(res, "INVALID_REQUEST", "Confirmed addresses would be left without a Merkle proof; re-run the import.", {
+      addresses: wouldLoseProof.slice(0, 100)
+    });
+    return;
+  }
+
+  const summary = await store.upsertAllowlistEntries(merged, {
+    actor,
+    action: bulk ? "allowlist.bulk_upsert" : "allowlist.upsert"
+  });
+  const proofsPending = merged.filter((entry) => !entry.merkleProof).length;
+  res.status(200).json({ ok: true, received: inputs.length, ...summary, proofsPending });
+}
+
+async function handleRemove(req: ApiRequest, res: ApiResponse, actor: string): Promise<void> {
+  const body = readJsonBody(req);
+  const single = readQuery(req, "address") || readString(body, "address");
+  const addresses = Array.isArray(body.addresses) ? body.addresses : [single];
+
+  const checked = addresses.map((value) => (typeof value === "string" ? normalizeAddress(value) : null));
+  if (checked.length === 0 || checked.length > MAX_BULK_ENTRIES || checked.includes(null)) {
+    sendError(res, "INVALID_ADDRESS", "Pass ?address=0x… or { addresses: [...] }.");
+    return;
+  }
+
+  const normalized = [...new Set(checked as string[])];
+  const removed = await getStore().removeAllowlistEntries(normalized, {
+    actor,
+    action: normalized.length === 1 ? "allowlist.remove" : "allowlist.bulk_remove"
+  });
+  res.status(200).json({ ok: true, requested: normalized.length, removed });
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    sendError(res, "UNAUTHORIZED");
+    return;
+  }
+
+  try {
+    if (req.method === "GET") {
+      await handleLookup(req, res);
+    } else if (req.method === "POST") {
+      await handleUpsert(req, res, actor);
+    } else if (req.method === "DELETE") {
+      await handleRemove(req, res, actor);
+    } else {
+      sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET, POST or DELETE.");
+    }
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
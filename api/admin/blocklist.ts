@@ -0,0 +1,104 @@
+import { authenticateAdmin, parseBlockInput } from "../_lib/admin.js";
+import { sendError, sendUnexpectedError } from "../_lib/errors.js";
+import { readJsonBody, readQuery, readString, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { getStore, type BlockEntry } from "../_lib/storage/index.js";
+import { normalizeAddress } from "../../src/lib/address.js";
+
+const MAX_BULK_ENTRIES = 5000;
+
+function isActive(entry: BlockEntry, now: number): boolean {
+  return entry.expiresAt === null || Date.parse(entry.expiresAt) > now;
+}
+
+async function handleList(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const query = readQuery(req, "address");
+  const address = query ? normalizeAddress(query) : null;
+  if (query && !address) {
+    sendError(res, "INVALID_ADDRESS", "Pass ?address=0x…");
+    return;
+  }
+
+  const now = Date.now();
+  const blocks = await getStore().listBlocks();
+  const items = blocks
+    .filter((entry) => !address || entry.address === address)
+    .map((entry) => ({ ...entry, active: isActive(entry, now) }));
+  res.status(200).json({ ok: true, total: items.length, items });
+}
+
+async function handleUpsert(req: ApiRequest, res: ApiResponse, actor: string): Promise<void> {
+  const body = readJsonBody(req);
+  const bulk = Array.isArray(body.entries);
+  const inputs = bulk ? (body.entries as unknown[]) : [body];
+
+  if (inputs.length === 0 || inputs.length > MAX_BULK_ENTRIES) {
+    sendError(res, "INVALID_REQUEST", `Send between 1 and ${MAX_BULK_ENTRIES} entries.`);
+    return;
+  }
+
+  const entries: BlockEntry[] = [];
+  const invalid: number[] = [];
+  inputs.forEach((input, index) => {
+    const entry = parseBlockInput(input);
+    if (entry) entries.push(entry);
+    else invalid.push(index);
+  });
+
+  if (invalid.length > 0) {
+    sendError(res, "INVALID_REQUEST", "Some entries are invalid. Each needs an address and a reason.", {
+      invalid: invalid.slice(0, 100)
+    });
+    return;
+  }
+
+  const deduped = [...new Map(entries.map((entry) => [entry.address, entry])).values()];
+  const summary = await getStore().upsertBlocks(deduped, {
+    actor,
+    action: bulk ? "blocklist.bulk_upsert" : "blocklist.upsert"
+  });
+  res.status(200).json({ ok: true, received: inputs.length, ...summary });
+}
+
+async function handleRemove(req: ApiRequest, res: ApiResponse, actor: string): Promise<void> {
+  const body = readJsonBody(req);
+  const single = readQuery(req, "address") || readString(body, "address");
+  const addresses = Array.isArray(body.addresses) ? body.addresses : [single];
+
+  const checked = addresses.map((value) => (typeof value === "string" ? normalizeAddress(value) : null));
+  if (checked.length === 0 || checked.length > MAX_BULK_ENTRIES || checked.includes(null)) {
+    sendError(res, "INVALID_ADDRESS", "Pass ?address=0x… or { addresses: [...] }.");
+    return;
+  }
+
+  const normalized = [...new Set(checked as string[])];
+  const removed = await getStore().removeBlocks(normalized, {
+    actor,
+    action: normalized.length === 1 ? "blocklist.remove" : "blocklist.bulk_remove"
+  });
+  res.status(200).json({ ok: true, requested: normalized.length, removed });
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    sendError(res, "UNAUTHORIZED");
+    return;
+  }
+
+  try {
+    if (req.method === "GET") {
+      await handleList(req, res);
+    } else if (req.method === "POST") {
+      await handleUpsert(req, res, actor);
+    } else if (req.method === "DELETE") {
+      await handleRemove(req, res, actor);
+    } else {
+      sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET, POST or DELETE.");
+    }
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
@@ -0,0 +1,95 @@
+import { authenticateAdmin } from "../_lib/admin.js";
+import { sendError, sendUnexpectedError } from "../_lib/errors.js";
+import { readJsonBody, readQuery, readString, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { getStore } from "../_lib/storage/index.js";
+import { normalizeAddress } from "../../src/lib/address.js";
+import { isTier } from "../../src/lib/tiers.js";
+
+const ADDRESS_PREFIX_REGEX = /^0x[a-fA-F0-9]{0,40}$/;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+function readPositiveInt(value: string, fallback: number): number {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/** Empty input is "no bound"; anything else must parse as a date. */
+function readDate(value: string): Date | undefined | null {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+}
+
+async function handleList(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const page = readPositiveInt(readQuery(req, "page"), 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, readPositiveInt(readQuery(req, "pageSize"), DEFAULT_PAGE_SIZE));
+  const tier = readQuery(req, "tier");
+  const addressPrefix = readQuery(req, "address");
+  const since = readDate(readQuery(req, "since"));
+  const until = readDate(readQuery(req, "until"));
+
+  if (tier && !isTier(tier)) {
+    sendError(res, "INVALID_REQUEST", "Unknown tier.");
+    return;
+  }
+  if (addressPrefix && !ADDRESS_PREFIX_REGEX.test(addressPrefix)) {
+    sendError(res, "INVALID_ADDRESS", "address must be a 0x-prefixed hex prefix.");
+    return;
+  }
+  if (since === null || until === null) {
+    sendError(res, "INVALID_REQUEST", "since and until must be ISO 8601 timestamps.");
+    return;
+  }
+
+  const result = await getStore().listConfirmations({
+    limit: pageSize,
+    offset: (page - 1) * pageSize,
+    tier: isTier(tier) ? tier : undefined,
+    addressPrefix: addressPrefix ? addressPrefix.toLowerCase() : undefined,
+    since,
+    until
+  });
+  res.status(200).json({ ok: true, page, pageSize, total: result.total, items: result.items });
+}
+
+async function handleRevoke(req: ApiRequest, res: ApiResponse, actor: string): Promise<void> {
+  const address = normalizeAddress(readQuery(req, "address") || readString(readJsonBody(req), "address"));
+  if (!address) {
+    sendError(res, "INVALID_ADDRESS", "Pass ?address=0x…");
+    return;
+  }
+
+  const revoked = await getStore().revokeConfirmation(address, {
+    actor,
+    action: "confirmation.revoke"
+  });
+  if (!revoked) {
+    sendError(res, "NOT_CONFIRMED", "Address has no confirmation to revoke.");
+    return;
+  }
+  res.status(200).json({ ok: true, address, revoked });
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  const actor = authenticateAdmin(req);
+  if (!actor) {
+    sendError(res, "UNAUTHORIZED");
+    return;
+  }
+
+  try {
+    if (req.method === "GET") {
+      await handleList(req, res);
+    } else if (req.method === "DELETE") {
+      await handleRevoke(req, res, actor);
+    } else {
+      sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET or DELETE.");
+    }
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
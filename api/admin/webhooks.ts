@@ -0,0 +1,58 @@
+import { authenticateAdmin, authenticateCron } from "../_lib/admin.js";
+import { sendError, sendUnexpectedError } from "../_lib/errors.js";
+import { readJsonBody, readString, type ApiRequest, type ApiResponse } from "../_lib/http.js";
+import { getStore } from "../_lib/storage/index.js";
+import { dispatchWebhooks } from "../_lib/webhooks.js";
+
+const EVENT_ID_REGEX = /^\d+$/;
+
+async function handleReplay(req: ApiRequest, res: ApiResponse, actor: string): Promise<void> {
+  const body = readJsonBody(req);
+  const endpoint = readString(body, "endpoint");
+  const eventIds = body.eventIds;
+  const validIds = Array.isArray(eventIds) && eventIds.every((id) => EVENT_ID_REGEX.test(String(id)));
+  if (eventIds !== undefined && !validIds) {
+    sendError(res, "INVALID_REQUEST", "eventIds must be an array of numeric event ids.");
+    return;
+  }
+
+  const replayed = await getStore().replayDeliveries(
+    {
+      endpoint: endpoint || undefined,
+      eventIds: Array.isArray(eventIds) ? eventIds.map(String) : undefined
+    },
+    { actor, action: "webhooks.replay" }
+  );
+  res.status(200).json({ ok: true, replayed });
+}
+
+/**
+ * `GET` (Vercel Cron) or `POST` dispatches due webhook deliveries. `POST { action: "replay",
+ * endpoint?, eventIds? }` re-queues dead deliveries, or the given events whatever their state.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  const admin = authenticateAdmin(req);
+  if (!admin && !authenticateCron(req)) {
+    sendError(res, "UNAUTHORIZED");
+    return;
+  }
+
+  try {
+    if (req.method === "POST" && readString(readJsonBody(req), "action") === "replay") {
+      if (!admin) {
+        sendError(res, "UNAUTHORIZED", "Replays need the admin token.");
+        return;
+      }
+      await handleReplay(req, res, admin);
+    } else if (req.method === "GET" || req.method === "POST") {
+      res.status(200).json({ ok: true, ...(await dispatchWebhooks()) });
+    } else {
+      sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET or POST.");
+    }
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
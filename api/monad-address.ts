@@ -1,125 +1,150 @@
-const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
-
-type ApiRequest = {
-  method?: string;
-  headers: Record<string, string | string[] | undefined>;
-  body?: unknown;
-};
-
-type ApiResponse = {
-  status: (code: number) => ApiResponse;
-  json: (payload: unknown) => void;
-  setHeader: (name: string, value: string) => void;
-};
-
-function parseAddress(req: ApiRequest): string {
-  const body = req.body;
-  if (!body) {
-    return "";
-  }
-
-  if (typeof body === "object" && body !== null && "address" in body) {
-    const value = (body as { address?: unknown }).address;
-    return typeof value === "string" ? value.trim() : "";
-  }
-
-  if (typeof body === "string") {
-    try {
-      const parsed = JSON.parse(body) as { address?: unknown };
-      return typeof parsed.address === "string" ? parsed.address.trim() : "";
-    } catch {
-      return "";
-    }
-  }
-
-  return "";
+import { createHash } from "node:crypto";
+import { canSetDestination } from "./_lib/destination.js";
+import { matchAllowlist, type AllowlistMatch } from "./_lib/eligibility.js";
+import { sendError, sendUnexpectedError } from "./_lib/errors.js";
+import { readHeader, readJsonBody, readString, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { getConfirmationWindow, isOpenForTiers } from "./_lib/phases.js";
+import { screenAddresses } from "./_lib/screening.js";
+import { checkRateLimits, getClientIp, sendRateLimited, VERIFY_RATE_LIMITS } from "./_lib/rateLimit.js";
+import { getSignInOrigin, verifyChallenge } from "./_lib/siwe.js";
+import { getStore, type ConfirmationInput } from "./_lib/storage/index.js";
+import { checkAddress, describeAddressProblem } from "../src/lib/address.js";
+import { primaryTier } from "../src/lib/tiers.js";
+
+const SIGNATURE_REGEX = /^0x[a-fA-F0-9]{130}$/;
+const CONFIRMATION_SOURCES = new Set(["wallet", "manual"]);
+
+async function isAllowlisted(address: string): Promise<AllowlistMatch | null> {
+  return matchAllowlist(address, await getStore().getAllowlistEntry(address));
 }
 
-function getDatabaseUrl(): string {
-  return (
-    process.env.DATABASE_URL_UNPOOLED ||
-    process.env.POSTGRES_URL_NON_POOLING ||
-    process.env.DATABASE_URL ||
-    process.env.POSTGRES_URL ||
-    ""
-  );
+function readConfirmationInput(req: ApiRequest, body: Record<string, unknown>, signature: string): ConfirmationInput {
+  const source = readString(body, "source");
+  const userAgent = readHeader(req, "user-agent");
+  return {
+    source: CONFIRMATION_SOURCES.has(source) ? source : "api",
+    userAgentHash: userAgent ? createHash("sha256").update(userAgent).digest("hex") : null,
+    signature
+  };
 }
 
-async function isAllowlisted(address: string): Promise<boolean> {
-  const connectionString = getDatabaseUrl();
-  if (!connectionString) {
-    return false;
-  }
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
 
-  try {
-    const pgModule = await import("pg");
-    const { Client } = pgModule.default ?? pgModule;
-    const client = new Client({ connectionString });
-    await client.connect();
+  if (req.method === "GET") {
     try {
-      const result = await client.query("SELECT 1 FROM allowlist_addresses WHERE address = $1 LIMIT 1", [address]);
-      return (result.rowCount ?? 0) > 0;
-    } finally {
-      await client.end();
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).json({ ok: true, ...getConfirmationWindow() });
+    } catch (error) {
+      sendUnexpectedError(res, error);
     }
-  } catch {
-    return false;
+    return;
   }
-}
 
-async function storeConfirmedAddress(address: string): Promise<boolean> {
-  const connectionString = getDatabaseUrl();
-  if (!connectionString) {
-    return false;
+  if (req.method !== "POST") {
+    sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET or POST.");
+    return;
   }
 
+  const body = readJsonBody(req);
+  const addressCheck = checkAddress(readString(body, "address"));
+
   try {
-    const pgModule = await import("pg");
-    const { Client } = pgModule.default ?? pgModule;
-    const client = new Client({ connectionString });
-    await client.connect();
-    try {
-      const result = await client.query(
-        "INSERT INTO confirmed_addresses(address) VALUES ($1) ON CONFLICT (address) DO NOTHING",
-        [address]
-      );
-      return (result.rowCount ?? 0) > 0;
-    } finally {
-      await client.end();
+    const limited = await checkRateLimits([
+      { rule: VERIFY_RATE_LIMITS.ip, key: getClientIp(req) },
+      ...(addressCheck.ok ? [{ rule: VERIFY_RATE_LIMITS.address, key: addressCheck.address }] : [])
+    ]);
+    if (!limited.allowed) {
+      sendRateLimited(res, limited);
+      return;
     }
-  } catch {
-    return false;
-  }
-}
 
-export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
-  res.setHeader("Content-Type", "application/json");
+    if (!addressCheck.ok) {
+      sendError(res, "INVALID_ADDRESS", `${describeAddressProblem(addressCheck.problem)}.`);
+      return;
+    }
 
-  if (req.method !== "POST") {
-    res.status(405).json({ ok: false, error: "Method not allowed. Use POST." });
-    return;
-  }
+    const message = readString(body, "message");
+    const signature = readString(body, "signature");
+    if (!message || !SIGNATURE_REGEX.test(signature)) {
+      sendError(res, "INVALID_REQUEST", "A signed challenge from /api/monad-nonce is required.");
+      return;
+    }
 
-  const address = parseAddress(req);
-  if (!ADDRESS_REGEX.test(address)) {
-    res.status(400).json({ ok: false, error: "Invalid Monad EVM address format." });
-    return;
-  }
+    // Checked before the challenge so a closed window does not burn the user's nonce.
+    const confirmationWindow = getConfirmationWindow();
+    if (!confirmationWindow.open) {
+      sendError(res, "WINDOW_CLOSED", "Confirmation is closed.", { verified: false, next: confirmationWindow.next });
+      return;
+    }
 
-  try {
-    const normalized = address.toLowerCase();
-    const verified = await isAllowlisted(normalized);
+    const normalized = addressCheck.address;
+    const challenge = await verifyChallenge(normalized, message, signature, getSignInOrigin(req));
+    if (!challenge.ok) {
+      sendError(res, challenge.code, challenge.error, { verified: false });
+      return;
+    }
 
-    if (!verified) {
-      res.status(400).json({ ok: false, error: "error", verified: false });
+    // Also screened when the challenge is issued; checking again catches blocks added since.
+    const screening = await screenAddresses(
+      req,
+      "monad-address",
+      challenge.destination ? [normalized, challenge.destination] : [normalized]
+    );
+    if (!screening.ok) {
+      sendError(res, screening.code, screening.error, { verified: false });
       return;
     }
 
-    const inserted = await storeConfirmedAddress(normalized);
+    const match = await isAllowlisted(normalized);
+
+    if (!match) {
+      sendError(res, "NOT_ALLOWLISTED", "Address is not on the allowlist.", { verified: false });
+      return;
+    }
+
+    if (!isOpenForTiers(confirmationWindow, match.tiers)) {
+      sendError(res, "WINDOW_CLOSED", `The ${confirmationWindow.current?.name ?? "current"} phase is not open to this address.`, {
+        verified: false,
+        phase: confirmationWindow.current?.name ?? null,
+        next: confirmationWindow.next
+      });
+      return;
+    }
+
+    if (challenge.destination && !(await canSetDestination(normalized, challenge.destination))) {
+      sendError(res, "DESTINATION_LOCKED");
+      return;
+    }
+
+    const eligibility = {
+      verified: true,
+      allocation: match.allocation,
+      tiers: match.tiers,
+      tier: primaryTier(match.tiers)
+    };
+    const confirmation = await getStore().confirmAddress(
+      normalized,
+      readConfirmationInput(req, body, signature),
+      challenge.destination
+    );
+    const details = {
+      ...eligibility,
+      confirmedAt: confirmation.confirmedAt,
+      destination: confirmation.destination?.destination ?? null
+    };
+    // Signing again to move an existing confirmation to a new destination is a success, not a repeat.
+    if (!confirmation.inserted && confirmation.destinationChanged) {
+      res.status(200).json({ ok: true, ...details, destinationUpdated: true });
+      return;
+    }
+    if (!confirmation.inserted) {
+      sendError(res, "ALREADY_CONFIRMED", "Address was already confirmed.", details);
+      return;
+    }
 
-    res.status(200).json({ ok: true, verified: true, inserted });
+    res.status(200).json({ ok: true, ...details });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Unexpected server error";
-    res.status(500).json({ ok: false, error: message });
+    sendUnexpectedError(res, error);
   }
 }
@@ -0,0 +1,43 @@
+import { getDestinationCutoff, isDestinationLocked } from "./_lib/destination.js";
+import { sendError, sendUnexpectedError } from "./_lib/errors.js";
+import { readQuery, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { checkRateLimits, getClientIp, sendRateLimited, STATUS_RATE_LIMITS } from "./_lib/rateLimit.js";
+import { getStore } from "./_lib/storage/index.js";
+import { checkAddress, describeAddressProblem } from "../src/lib/address.js";
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET") {
+    sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET.");
+    return;
+  }
+
+  const check = checkAddress(readQuery(req, "address"));
+  if (!check.ok) {
+    sendError(res, "INVALID_ADDRESS", `Source wallet: ${describeAddressProblem(check.problem)}.`);
+    return;
+  }
+  const source = check.address;
+
+  try {
+    const limited = await checkRateLimits([{ rule: STATUS_RATE_LIMITS.ip, key: getClientIp(req) }]);
+    if (!limited.allowed) {
+      sendRateLimited(res, limited);
+      return;
+    }
+
+    const mapping = await getStore().getDestination(source);
+    res.status(200).json({
+      ok: true,
+      source,
+      destination: mapping?.destination ?? null,
+      updatedAt: mapping?.updatedAt ?? null,
+      changesCloseAt: getDestinationCutoff()?.toISOString() ?? null,
+      locked: isDestinationLocked()
+    });
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
@@ -0,0 +1,71 @@
+import { sendError, sendUnexpectedError } from "./_lib/errors.js";
+import { readJsonBody, readString, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { getConfirmationWindow } from "./_lib/phases.js";
+import { screenAddresses } from "./_lib/screening.js";
+import { checkRateLimits, getClientIp, sendRateLimited, VERIFY_RATE_LIMITS } from "./_lib/rateLimit.js";
+import { canSetDestination } from "./_lib/destination.js";
+import { getSignInOrigin, issueChallenge } from "./_lib/siwe.js";
+import { checkAddress, describeAddressProblem } from "../src/lib/address.js";
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "POST") {
+    sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use POST.");
+    return;
+  }
+
+  const body = readJsonBody(req);
+  const addressCheck = checkAddress(readString(body, "address"));
+  const rawDestination = readString(body, "destination");
+
+  try {
+    const limited = await checkRateLimits([
+      { rule: VERIFY_RATE_LIMITS.ip, key: getClientIp(req) },
+      ...(addressCheck.ok ? [{ rule: VERIFY_RATE_LIMITS.address, key: addressCheck.address }] : [])
+    ]);
+    if (!limited.allowed) {
+      sendRateLimited(res, limited);
+      return;
+    }
+
+    if (!addressCheck.ok) {
+      sendError(res, "INVALID_ADDRESS", `${describeAddressProblem(addressCheck.problem)}.`);
+      return;
+    }
+    const address = addressCheck.address;
+
+    const confirmationWindow = getConfirmationWindow();
+    if (!confirmationWindow.open) {
+      sendError(res, "WINDOW_CLOSED", "Confirmation is closed.", { next: confirmationWindow.next });
+      return;
+    }
+
+    const destinationCheck = rawDestination ? checkAddress(rawDestination) : null;
+    if (destinationCheck && !destinationCheck.ok) {
+      sendError(res, "INVALID_ADDRESS", `Destination: ${describeAddressProblem(destinationCheck.problem)}.`);
+      return;
+    }
+    const destination = destinationCheck ? destinationCheck.address : null;
+    // Fail before the wallet prompt rather than after the signature.
+    const screening = await screenAddresses(
+      req,
+      "monad-nonce",
+      destination ? [address, destination] : [address]
+    );
+    if (!screening.ok) {
+      sendError(res, screening.code, screening.error);
+      return;
+    }
+    if (destination && !(await canSetDestination(address, destination))) {
+      sendError(res, "DESTINATION_LOCKED");
+      return;
+    }
+
+    const challenge = await issueChallenge(address, getSignInOrigin(req), destination);
+    res.status(200).json({ ok: true, ...challenge });
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
@@ -0,0 +1,45 @@
+import { sendError, sendUnexpectedError } from "./_lib/errors.js";
+import { readQuery, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { checkRateLimits, getClientIp, sendRateLimited, STATUS_RATE_LIMITS } from "./_lib/rateLimit.js";
+import { getStore } from "./_lib/storage/index.js";
+import { checkAddress, describeAddressProblem } from "../src/lib/address.js";
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+
+  if (req.method !== "GET") {
+    sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET.");
+    return;
+  }
+
+  const check = checkAddress(readQuery(req, "address"));
+  if (!check.ok) {
+    sendError(res, "INVALID_ADDRESS", `${describeAddressProblem(check.problem)}.`);
+    return;
+  }
+
+  try {
+    const limited = await checkRateLimits([{ rule: STATUS_RATE_LIMITS.ip, key: getClientIp(req) }]);
+    if (!limited.allowed) {
+      sendRateLimited(res, limited);
+      return;
+    }
+
+    const record = await getStore().getMintProof(check.address);
+
+    if (!record) {
+      sendError(res, "NOT_CONFIRMED", "No proof available. Confirm this address first.");
+      return;
+    }
+
+    res.status(200).json({
+      ok: true,
+      address: check.address,
+      allocation: record.allocation,
+      root: record.root,
+      proof: record.proof
+    });
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
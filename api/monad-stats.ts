@@ -0,0 +1,75 @@
+import { sendError, sendUnexpectedError } from "./_lib/errors.js";
+import type { ApiRequest, ApiResponse } from "./_lib/http.js";
+import { getStore } from "./_lib/storage/index.js";
+import { BASE_SET } from "../src/lib/baseAddresses.js";
+import { toPercentage, type CampaignStats } from "../src/lib/stats.js";
+import { TIERS } from "../src/lib/tiers.js";
+
+const CACHE_TTL_MS = 30 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const HOURLY_BUCKETS = 24;
+
+// Per instance; the Cache-Control header lets the CDN absorb most traffic on top of this.
+let cached: { stats: CampaignStats; expiresAt: number } | null = null;
+
+async function computeStats(now: number): Promise<CampaignStats> {
+  const firstHour = Math.floor(now / HOUR_MS) * HOUR_MS - (HOURLY_BUCKETS - 1) * HOUR_MS;
+  const store = getStore();
+  const stats = await store.getStats(new Date(firstHour));
+
+  // BASE_SET addresses count as base-tier even when the database does not have them.
+  const baseStatuses = await store.getAddressStatuses([...BASE_SET]);
+  for (const status of baseStatuses) {
+    if (status.entry) continue;
+    stats.allowlisted += 1;
+    stats.tiers.base.allowlisted += 1;
+    if (status.confirmed) {
+      stats.confirmed += 1;
+      stats.tiers.base.confirmed += 1;
+    }
+  }
+
+  const counts = new Map(stats.hourly.map((bucket) => [Date.parse(bucket.hour), bucket.confirmed]));
+  return {
+    generatedAt: new Date(now).toISOString(),
+    allowlisted: stats.allowlisted,
+    confirmed: stats.confirmed,
+    percentage: toPercentage(stats.confirmed, stats.allowlisted),
+    tiers: Object.fromEntries(
+      TIERS.map((tier) => {
+        const { allowlisted, confirmed } = stats.tiers[tier];
+        return [tier, { allowlisted, confirmed, percentage: toPercentage(confirmed, allowlisted) }];
+      })
+    ) as CampaignStats["tiers"],
+    hourly: Array.from({ length: HOURLY_BUCKETS }, (_, i) => {
+      const hour = firstHour + i * HOUR_MS;
+      return { hour: new Date(hour).toISOString(), confirmed: counts.get(hour) ?? 0 };
+    })
+  };
+}
+
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+
+  if (req.method !== "GET") {
+    sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET.");
+    return;
+  }
+
+  const now = Date.now();
+  try {
+    if (!cached || cached.expiresAt <= now) {
+      cached = { stats: await computeStats(now), expiresAt: now + CACHE_TTL_MS };
+    }
+    res.setHeader("Cache-Control", "public, s-maxage=30, stale-while-revalidate=60");
+    res.status(200).json({ ok: true, stale: false, ...cached.stats });
+  } catch (error) {
+    // A storage outage should not blank the progress bar: serve the last known numbers.
+    if (cached) {
+      res.setHeader("Cache-Control", "no-store");
+      res.status(200).json({ ok: true, stale: true, ...cached.stats });
+      return;
+    }
+    sendUnexpectedError(res, error);
+  }
+}
@@ -0,0 +1,111 @@
+import { authenticateStatusClient } from "./_lib/admin.js";
+import { matchAllowlist } from "./_lib/eligibility.js";
+import { sendError, sendUnexpectedError } from "./_lib/errors.js";
+import { readJsonBody, readQuery, type ApiRequest, type ApiResponse } from "./_lib/http.js";
+import { checkRateLimits, getClientIp, sendRateLimited, STATUS_RATE_LIMITS } from "./_lib/rateLimit.js";
+import { getStore, type AddressStatus } from "./_lib/storage/index.js";
+import { checkAddress, describeAddressProblem } from "../src/lib/address.js";
+import { primaryTier, type Tier } from "../src/lib/tiers.js";
+
+const MAX_BATCH_ADDRESSES = 100;
+
+type StatusBody = {
+  address: string;
+  allowlisted: boolean;
+  tier: Tier | null;
+  tiers: Tier[];
+  allocation: number | null;
+  confirmed: boolean;
+  confirmedAt: string | null;
+};
+
+function toStatusBody(status: AddressStatus): StatusBody {
+  const match = matchAllowlist(status.address, status.entry);
+  return {
+    address: status.address,
+    allowlisted: match !== null,
+    tier: match ? primaryTier(match.tiers) : null,
+    tiers: match?.tiers ?? [],
+    allocation: match?.allocation ?? null,
+    confirmed: status.confirmed,
+    confirmedAt: status.confirmedAt
+  };
+}
+
+async function handleLookup(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const limited = await checkRateLimits([{ rule: STATUS_RATE_LIMITS.ip, key: getClientIp(req) }]);
+  if (!limited.allowed) {
+    sendRateLimited(res, limited);
+    return;
+  }
+
+  const check = checkAddress(readQuery(req, "address"));
+  if (!check.ok) {
+    sendError(res, "INVALID_ADDRESS", `${describeAddressProblem(check.problem)}.`);
+    return;
+  }
+
+  const store = getStore();
+  const [status, mapping] = await Promise.all([
+    store.getAddressStatus(check.address),
+    store.getDestination(check.address)
+  ]);
+  res.status(200).json({ ok: true, ...toStatusBody(status), destination: mapping?.destination ?? null });
+}
+
+async function handleBatch(req: ApiRequest, res: ApiResponse): Promise<void> {
+  const actor = authenticateStatusClient(req);
+  if (!actor) {
+    sendError(res, "UNAUTHORIZED");
+    return;
+  }
+
+  const limited = await checkRateLimits([{ rule: STATUS_RATE_LIMITS.batch, key: actor }]);
+  if (!limited.allowed) {
+    sendRateLimited(res, limited);
+    return;
+  }
+
+  const addresses = readJsonBody(req).addresses;
+  if (!Array.isArray(addresses) || addresses.length === 0 || addresses.length > MAX_BATCH_ADDRESSES) {
+    sendError(res, "INVALID_REQUEST", `Send { addresses: [...] } with 1 to ${MAX_BATCH_ADDRESSES} addresses.`);
+    return;
+  }
+
+  const inputs = addresses.map((value) => (typeof value === "string" ? value.trim() : ""));
+  const checks = inputs.map((input) => checkAddress(input));
+  const valid = [...new Set(checks.flatMap((check) => (check.ok ? [check.address] : [])))];
+  const statuses = new Map((await getStore().getAddressStatuses(valid)).map((status) => [status.address, status]));
+
+  const results = checks.map((check, index) => {
+    const status = check.ok ? statuses.get(check.address) : undefined;
+    if (status) {
+      return { ok: true, ...toStatusBody(status) };
+    }
+    const error = describeAddressProblem(check.ok ? "format" : check.problem);
+    return { ok: false, address: inputs[index], code: "INVALID_ADDRESS", error };
+  });
+  res.status(200).json({ ok: true, results });
+}
+
+/**
+ * Read-only eligibility lookups; nothing here creates a confirmation. `GET ?address=` is
+ * public and rate limited per IP. `POST { addresses }` is the batch form for integrations:
+ * it needs a status token and is rate limited per token.
+ */
+export default async function handler(req: ApiRequest, res: ApiResponse): Promise<void> {
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "no-store");
+
+  try {
+    if (req.method === "GET") {
+      await handleLookup(req, res);
+    } else if (req.method === "POST") {
+      await handleBatch(req, res);
+    } else {
+      sendError(res, "METHOD_NOT_ALLOWED", "Method not allowed. Use GET or POST.");
+    }
+  } catch (error) {
+    sendUnexpectedError(res, error);
+  }
+}
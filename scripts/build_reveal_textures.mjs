@@ -0,0 +1,54 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+
+const LAYERS = ["top", "under"];
+const WIDTHS = [960, 1600, 2560];
+// Listed in order of preference; the client falls back along this list when a format fails to decode.
+const FORMATS = [
+  { format: "avif", options: { quality: 55, effort: 4 } },
+  { format: "webp", options: { quality: 80 } },
+  { format: "jpeg", options: { quality: 82, mozjpeg: true } }
+];
+const SOURCE_DIR = "public/reveal";
+const MANIFEST_PATH = "src/lib/revealTextures.json";
+
+/**
+ * Renders every layer in `public/reveal/<layer>.avif` at each width (never upscaling) and
+ * format, and writes the manifest the client picks from.
+ */
+async function main() {
+  const root = process.cwd();
+  const manifest = {};
+
+  for (const layer of LAYERS) {
+    const source = path.join(root, SOURCE_DIR, `${layer}.avif`);
+    const { width, height } = await sharp(source).metadata();
+    if (!width || !height) throw new Error(`Cannot read the size of ${source}`);
+
+    const widths = [...new Set(WIDTHS.map((target) => Math.min(target, width)))];
+    const variants = [];
+    for (const variantWidth of widths) {
+      for (const { format, options } of FORMATS) {
+        const ext = format === "jpeg" ? "jpg" : format;
+        const file = `${layer}-${variantWidth}.${ext}`;
+        const info = await sharp(source)
+          .resize({ width: variantWidth })
+          .toFormat(format, options)
+          .toFile(path.join(root, SOURCE_DIR, file));
+        variants.push({ url: `/reveal/${file}`, width: variantWidth, format });
+        console.log(`${file}: ${Math.round(info.size / 1024)} KiB`);
+      }
+    }
+    manifest[layer] = { width, height, variants };
+  }
+
+  await mkdir(path.dirname(path.join(root, MANIFEST_PATH)), { recursive: true });
+  await writeFile(path.join(root, MANIFEST_PATH), `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+  console.log(`manifest: ${MANIFEST_PATH}`);
+}
+
+main().catch((error) => {
+  console.error(error.message || "Texture build failed");
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { getDatabaseUrl, getStorageDriver } from "../api/_lib/storage/index.ts";
+
+function parseEnvLocal(content) {
+  const env = {};
+  const lines = content.split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const eqIdx = line.indexOf("=");
+    if (eqIdx <= 0) continue;
+    const key = line.slice(0, eqIdx).trim();
+    let value = line.slice(eqIdx + 1).trim();
+    if (
+      (value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'"))
+    ) {
+      value = value.slice(1, -1);
+    }
+    if (!(key in env)) env[key] = value;
+  }
+  return env;
+}
+
+export async function loadEnvLocal() {
+  const envPath = path.join(process.cwd(), ".env.local");
+  try {
+    const envContent = await readFile(envPath, "utf8");
+    const envMap = parseEnvLocal(envContent);
+    for (const [key, value] of Object.entries(envMap)) {
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+  } catch {
+    // .env.local not available; real env vars only
+  }
+
+  if (getStorageDriver() === "postgres" && !getDatabaseUrl()) {
+    throw new Error("DATABASE_URL is missing. Set env var, add it to .env.local, or use STORAGE_DRIVER=memory.");
+  }
+}
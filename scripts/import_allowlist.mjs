@@ -1,110 +1,381 @@
 import { readFile, writeFile } from "node:fs/promises";
 import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { getStorageDriver, getStore } from "../api/_lib/storage/index.ts";
+import { checkAddress, toChecksumAddress } from "../src/lib/address.ts";
+import { TIERS } from "../src/lib/tiers.ts";
+import { loadEnvLocal } from "./env.mjs";
+import { buildMerkleTree, hashLeaf, LEAF_ENCODING, verifyProof } from "./merkle.mjs";
 
-const BATCH_SIZE = 500;
-const ADDRESS_REGEX = /^0x[a-f0-9]{40}$/i;
-
-function parseEnvLocal(content) {
-  const env = {};
-  const lines = content.split(/\r?\n/);
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line || line.startsWith("#")) continue;
-    const eqIdx = line.indexOf("=");
-    if (eqIdx <= 0) continue;
-    const key = line.slice(0, eqIdx).trim();
-    let value = line.slice(eqIdx + 1).trim();
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      value = value.slice(1, -1);
-    }
-    if (!(key in env)) env[key] = value;
+const ALLOCATION_REGEX = /^\d+$/;
+const MERGE_STRATEGIES = ["sum", "max"];
+const USAGE = `Usage: npm run import:allowlist -- [options] [tier:]file ...
+
+  --merge max|sum   how to combine an address listed more than once (default max)
+  --tier <tier>     tier for files without a tier: prefix (default base)
+  --dry-run         compute the diff and write the report, change nothing
+  --sync            also delete stored addresses that are no longer in any input
+  --report <file>   write the diff as JSON, or CSV when the name ends in .csv`;
+
+function assertTier(tier, source) {
+  if (!TIERS.includes(tier)) {
+    throw new Error(`Unknown tier "${tier}" in ${source}. Expected one of: ${TIERS.join(", ")}`);
   }
-  return env;
+  return tier;
 }
 
-async function resolveDatabaseUrl() {
-  if (process.env.DATABASE_URL) return process.env.DATABASE_URL;
+function readOptionValue(argv, i, name) {
+  const arg = argv[i];
+  if (arg === name) return { value: argv[i + 1] ?? "", consumed: 2 };
+  if (arg.startsWith(`${name}=`)) return { value: arg.slice(name.length + 1), consumed: 1 };
+  return null;
+}
 
-  const envPath = path.join(process.cwd(), ".env.local");
-  try {
-    const envContent = await readFile(envPath, "utf8");
-    const envMap = parseEnvLocal(envContent);
-    if (envMap.DATABASE_URL) {
-      process.env.DATABASE_URL = envMap.DATABASE_URL;
-      return envMap.DATABASE_URL;
+function parseArgs(argv) {
+  const options = { merge: "max", defaultTier: "base", inputs: [], dryRun: false, sync: false, report: null };
+  for (let i = 0; i < argv.length; ) {
+    const merge = readOptionValue(argv, i, "--merge");
+    const tier = readOptionValue(argv, i, "--tier");
+    const report = readOptionValue(argv, i, "--report");
+    if (merge) {
+      options.merge = merge.value;
+      i += merge.consumed;
+    } else if (tier) {
+      options.defaultTier = assertTier(tier.value, "--tier");
+      i += tier.consumed;
+    } else if (report) {
+      if (!report.value) throw new Error("--report needs a file name");
+      options.report = report.value;
+      i += report.consumed;
+    } else if (argv[i] === "--dry-run") {
+      options.dryRun = true;
+      i += 1;
+    } else if (argv[i] === "--sync") {
+      options.sync = true;
+      i += 1;
+    } else if (argv[i] === "--help" || argv[i] === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (argv[i].startsWith("--")) {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    } else {
+      options.inputs.push(argv[i]);
+      i += 1;
+    }
+  }
+  if (!MERGE_STRATEGIES.includes(options.merge)) {
+    throw new Error(`--merge must be one of: ${MERGE_STRATEGIES.join(", ")}`);
+  }
+  if (options.inputs.length === 0) {
+    options.inputs.push("all.txt");
+  }
+  // "gtd:lists/gtd.txt" pins every line of that file to a tier; a bare path uses --tier.
+  options.inputs = options.inputs.map((input) => {
+    const match = /^([a-z]+):(.+)$/.exec(input);
+    if (match && TIERS.includes(match[1])) {
+      return { tier: match[1], file: match[2] };
     }
-  } catch {
-    // .env.local not available; handled below
+    return { tier: options.defaultTier, file: input };
+  });
+  return options;
+}
+
+/** Parses `address[,allocation[,tier]]` into `{ address, allocation, tier }`, or `{ error, checksum? }`. */
+export function parseLine(line, fileTier) {
+  const [rawAddress = "", rawAllocation = "", rawTier = ""] = line.split(",", 3);
+  const check = checkAddress(rawAddress);
+  if (!check.ok) {
+    return check.problem === "checksum" ? { error: "checksum mismatch", checksum: true } : { error: "invalid address" };
   }
+  const address = check.address;
+
+  const tierText = rawTier.trim().toLowerCase();
+  if (tierText && !TIERS.includes(tierText)) return { error: `unknown tier "${tierText}"` };
+  const tier = tierText || fileTier;
+
+  const allocationText = rawAllocation.trim();
+  if (!allocationText) return { address, allocation: 1, tier };
+  if (!ALLOCATION_REGEX.test(allocationText)) return { error: "invalid allocation" };
+
+  const allocation = Number.parseInt(allocationText, 10);
+  return allocation > 0 ? { address, allocation, tier } : { error: "allocation must be positive" };
+}
+
+/**
+ * Parses one input file into `merged` (address → `{ allocation, tiers: Set }`), combining an address
+ * listed more than once with `merge` and keeping every tier it appears under. `sources` records the
+ * first line each address came from.
+ */
+export function mergeAllowlistLines(merged, content, { file, tier, merge = "max", sources = new Map() }) {
+  const result = { total: 0, valid: 0, invalid: [], checksumInvalid: [] };
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) return;
+    result.total += 1;
+    const source = `${file}:${index + 1}`;
+
+    const entry = parseLine(line, tier);
+    if (entry.error) {
+      (entry.checksum ? result.checksumInvalid : result.invalid).push({ source, line: line.trim(), reason: entry.error });
+      return;
+    }
+    result.valid += 1;
 
-  throw new Error("DATABASE_URL is missing. Set env var or add it to .env.local.");
+    const previous = merged.get(entry.address);
+    if (!previous) {
+      merged.set(entry.address, { allocation: entry.allocation, tiers: new Set([entry.tier]) });
+      sources.set(entry.address, source);
+      return;
+    }
+    previous.allocation =
+      merge === "sum" ? previous.allocation + entry.allocation : Math.max(previous.allocation, entry.allocation);
+    previous.tiers.add(entry.tier);
+  });
+  return result;
 }
 
-function buildBatchInsertQuery(size) {
-  const valuesSql = Array.from({ length: size }, (_, i) => `($${i + 1})`).join(", ");
-  return `INSERT INTO allowlist_addresses(address) VALUES ${valuesSql} ON CONFLICT (address) DO NOTHING RETURNING address`;
+function sameTiers(a, b) {
+  return a.length === b.length && a.every((tier, i) => tier === b[i]);
 }
 
-async function main() {
-  const root = process.cwd();
-  const inputPath = path.join(root, "all.txt");
-  const csvPath = path.join(root, "allowlist.csv");
+function sameProof(a, b) {
+  return (a ?? []).join(",") === (b ?? []).join(",");
+}
 
-  const raw = await readFile(inputPath, "utf8");
-  const lines = raw.split(/\r?\n/).filter((line) => line.trim().length > 0);
-  const totalLines = lines.length;
+/**
+ * Classifies every input address against what is stored. "changed" means the allocation or
+ * tiers differ; an "unchanged" row may still be rewritten when its Merkle proof moved.
+ */
+function diffAllowlist(nextEntries, storedEntries, sources) {
+  const stored = new Map(storedEntries.map((entry) => [entry.address, entry]));
+  const diff = { added: [], changed: [], unchanged: [], removed: [], upserts: [] };
 
-  const validNormalized = [];
-  for (const line of lines) {
-    const beforeComma = line.split(",", 1)[0].trim().toLowerCase();
-    if (ADDRESS_REGEX.test(beforeComma)) {
-      validNormalized.push(beforeComma);
+  for (const entry of nextEntries) {
+    const previous = stored.get(entry.address);
+    const row = {
+      address: entry.address,
+      allocation: entry.allocation,
+      tiers: entry.tiers,
+      source: sources.get(entry.address)
+    };
+    if (!previous) {
+      diff.added.push(row);
+      diff.upserts.push(entry);
+    } else if (previous.allocation !== entry.allocation || !sameTiers(previous.tiers, entry.tiers)) {
+      diff.changed.push({ ...row, previousAllocation: previous.allocation, previousTiers: previous.tiers });
+      diff.upserts.push(entry);
+    } else {
+      diff.unchanged.push(row);
+      if (!sameProof(previous.merkleProof, entry.merkleProof)) diff.upserts.push(entry);
     }
+    stored.delete(entry.address);
   }
 
-  const deduped = [...new Set(validNormalized)];
-  const csvBody = `address\n${deduped.join("\n")}\n`;
-  await writeFile(csvPath, csvBody, "utf8");
+  for (const previous of stored.values()) {
+    diff.removed.push({
+      address: previous.address,
+      allocation: previous.allocation,
+      tiers: previous.tiers,
+      source: null
+    });
+  }
+  return diff;
+}
 
-  const skippedInvalid = totalLines - validNormalized.length;
+/** Throws unless every row left in storage after the write carries a proof that verifies against `root`. */
+function assertProofsVerify(root, storedEntries, upserts, removals) {
+  const final = new Map(storedEntries.map((entry) => [entry.address, entry]));
+  for (const entry of upserts) final.set(entry.address, entry);
+  for (const address of removals) final.delete(address);
 
-  await resolveDatabaseUrl();
+  const failing = [...final.values()].filter(
+    (entry) => !entry.merkleProof || !verifyProof(root, hashLeaf(entry.address, entry.allocation), entry.merkleProof)
+  );
+  if (failing.length > 0) {
+    const sample = failing.slice(0, 5).map((entry) => entry.address).join(", ");
+    throw new Error(`${failing.length} stored proofs would not verify against ${root} (${sample}); nothing was written`);
+  }
+}
 
-  let pgModule;
-  try {
-    pgModule = await import("pg");
-  } catch {
-    throw new Error('Missing "pg" package. Run: npm i pg');
+function csvField(value) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Report rows carry checksummed addresses; storage and proofs stay lowercase. */
+function formatReport(reportPath, summary, diff, invalid, checksumInvalid) {
+  if (!reportPath.toLowerCase().endsWith(".csv")) {
+    const lists = Object.fromEntries(
+      ["added", "changed", "unchanged", "removed"].map((status) => [
+        status,
+        diff[status].map((row) => ({ ...row, address: toChecksumAddress(row.address) }))
+      ])
+    );
+    return `${JSON.stringify({ summary, ...lists, invalid, checksumInvalid }, null, 2)}\n`;
+  }
+
+  const rows = [
+    ["status", "address", "allocation", "tiers", "previous_allocation", "previous_tiers", "source", "detail"]
+  ];
+  for (const status of ["added", "changed", "unchanged", "removed"]) {
+    for (const row of diff[status]) {
+      rows.push([
+        status,
+        toChecksumAddress(row.address),
+        row.allocation,
+        row.tiers.join("|"),
+        row.previousAllocation ?? "",
+        row.previousTiers?.join("|") ?? "",
+        row.source ?? "",
+        ""
+      ]);
+    }
+  }
+  for (const row of invalid) {
+    rows.push(["invalid", "", "", "", "", "", row.source, `${row.reason}: ${row.line}`]);
+  }
+  for (const row of checksumInvalid) {
+    rows.push(["checksum", "", "", "", "", "", row.source, `${row.reason}: ${row.line}`]);
   }
+  return `${rows.map((row) => row.map(csvField).join(",")).join("\n")}\n`;
+}
 
-  const { Client } = pgModule.default ?? pgModule;
-  const client = new Client({ connectionString: process.env.DATABASE_URL });
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const root = process.cwd();
+  const csvPath = path.join(root, "allowlist.csv");
+  const merklePath = path.join(root, "allowlist.merkle.json");
+  const proofsPath = path.join(root, "allowlist.proofs.json");
 
-  await client.connect();
+  const merged = new Map();
+  const sources = new Map();
+  const invalid = [];
+  // Mixed-case lines whose EIP-55 checksum is wrong: most likely a typo, so kept apart from
+  // plain format errors and never imported.
+  const checksumInvalid = [];
+  const tierCounts = Object.fromEntries(TIERS.map((tier) => [tier, 0]));
+  let totalLines = 0;
+  let validCount = 0;
+  for (const input of options.inputs) {
+    const raw = await readFile(path.resolve(root, input.file), "utf8");
+    const result = mergeAllowlistLines(merged, raw, { ...input, merge: options.merge, sources });
+    totalLines += result.total;
+    validCount += result.valid;
+    invalid.push(...result.invalid);
+    checksumInvalid.push(...result.checksumInvalid);
+  }
+
+  const deduped = [...merged.entries()].map(([address, { allocation }]) => [address, allocation]);
+  const tiersByAddress = new Map(
+    [...merged.entries()].map(([address, { tiers }]) => [address, TIERS.filter((tier) => tiers.has(tier))])
+  );
+  for (const tiers of tiersByAddress.values()) {
+    for (const tier of tiers) tierCounts[tier] += 1;
+  }
 
-  let inserted = 0;
+  const skippedInvalid = invalid.length;
+
+  await loadEnvLocal();
+
+  const store = getStore();
+  let diff;
+  let tree;
+  let leaves;
+  let summary = { inserted: 0, updated: 0, removed: 0 };
   try {
-    for (let i = 0; i < deduped.length; i += BATCH_SIZE) {
-      const batch = deduped.slice(i, i + BATCH_SIZE);
-      const sql = buildBatchInsertQuery(batch.length);
-      const result = await client.query(sql, batch);
-      inserted += result.rowCount ?? 0;
+    const storedEntries = await store.listAllowlistEntries();
+    // The root must cover everything left in storage, so stored addresses missing from the inputs
+    // are leaves too unless --sync removes them. Otherwise their old proofs would fail the new root.
+    const kept = options.sync ? [] : storedEntries.filter((entry) => !merged.has(entry.address));
+    leaves = [...deduped, ...kept.map((entry) => [entry.address, entry.allocation])];
+    tree = buildMerkleTree(leaves);
+
+    const nextEntries = deduped.map(([address, allocation]) => ({
+      address,
+      allocation,
+      tiers: tiersByAddress.get(address),
+      merkleProof: tree.proofs.get(address).proof
+    }));
+    diff = diffAllowlist(nextEntries, storedEntries, sources);
+    const keptUpserts = kept
+      .map((entry) => ({ ...entry, merkleProof: tree.proofs.get(entry.address).proof }))
+      .filter((entry, index) => !sameProof(kept[index].merkleProof, entry.merkleProof));
+    const upserts = [...diff.upserts, ...keptUpserts];
+    const removals = options.sync ? diff.removed.map((row) => row.address) : [];
+
+    assertProofsVerify(tree.root, storedEntries, upserts, removals);
+    if (!options.dryRun) {
+      // One atomic write: a failure part-way leaves the stored allowlist exactly as it was.
+      summary = await store.applyAllowlistChanges({ upserts, removals, meta: { merkle_root: tree.root } });
     }
   } finally {
-    await client.end();
+    await store.close();
+  }
+
+  const totalAllocation = leaves.reduce((sum, [, allocation]) => sum + allocation, 0);
+  if (!options.dryRun) {
+    const csvRows = deduped.map(([address, allocation]) =>
+      [toChecksumAddress(address), allocation, tiersByAddress.get(address).join("|")].join(",")
+    );
+    const csvBody = `address,allocation,tiers\n${csvRows.join("\n")}\n`;
+    await writeFile(csvPath, csvBody, "utf8");
+
+    const merkleSummary = { root: tree.root, leafEncoding: LEAF_ENCODING, leaves: leaves.length, totalAllocation };
+    await writeFile(merklePath, `${JSON.stringify(merkleSummary, null, 2)}\n`, "utf8");
+    await writeFile(
+      proofsPath,
+      `${JSON.stringify({ root: tree.root, proofs: Object.fromEntries(tree.proofs) }, null, 2)}\n`,
+      "utf8"
+    );
   }
 
+  const report = {
+    mode: options.dryRun ? "dry-run" : "apply",
+    sync: options.sync,
+    merkleRoot: tree.root,
+    added: diff.added.length,
+    changed: diff.changed.length,
+    unchanged: diff.unchanged.length,
+    removed: diff.removed.length,
+    invalid: invalid.length,
+    checksumInvalid: checksumInvalid.length
+  };
+  if (options.report) {
+    const reportBody = formatReport(options.report, report, diff, invalid, checksumInvalid);
+    await writeFile(path.resolve(root, options.report), reportBody, "utf8");
+  }
+
+  for (const row of checksumInvalid) {
+    console.warn(`checksum mismatch at ${row.source}: ${row.line}`);
+  }
+  console.log(`mode: ${report.mode}${options.sync ? " (sync)" : ""}`);
   console.log(`total lines: ${totalLines}`);
-  console.log(`valid: ${validNormalized.length}`);
+  console.log(`valid: ${validCount}`);
   console.log(`deduped: ${deduped.length}`);
-  console.log(`inserted: ${inserted}`);
+  console.log(`merge: ${options.merge}`);
+  for (const tier of TIERS) {
+    console.log(`tier_${tier}: ${tierCounts[tier]}`);
+  }
+  console.log(`merkle_leaves: ${leaves.length}`);
+  console.log(`total_allocation: ${totalAllocation}`);
+  console.log(`merkle_root: ${tree.root}`);
+  console.log(`storage: ${getStorageDriver()}`);
+  console.log(`added: ${diff.added.length}`);
+  console.log(`changed: ${diff.changed.length}`);
+  console.log(`unchanged: ${diff.unchanged.length}`);
+  console.log(`${options.sync ? "removed" : "stale (kept, use --sync to remove)"}: ${diff.removed.length}`);
+  console.log(`inserted: ${summary.inserted}`);
+  console.log(`updated: ${summary.updated}`);
+  console.log(`deleted: ${summary.removed}`);
   console.log(`skipped_invalid: ${skippedInvalid}`);
+  console.log(`skipped_checksum: ${checksumInvalid.length}`);
+  if (options.report) {
+    console.log(`report: ${options.report}`);
+  }
 }
 
-main().catch((error) => {
-  console.error(error.message || "Import failed");
-  process.exitCode = 1;
-});
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(error.message || "Import failed");
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,119 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseBlockInput } from "../api/_lib/admin.ts";
+import { getStore } from "../api/_lib/storage/index.ts";
+import { loadEnvLocal } from "./env.mjs";
+
+// An ISO 8601 date, optionally with a time; anything else after the last comma belongs to the reason.
+const EXPIRY_REGEX = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const USAGE = `Usage: npm run import:blocklist -- [--dry-run] [--sync] [file]
+
+  file        lines of address,reason[,expiresAt]; reasons may contain commas; # after a space
+              or at the start of a line starts a comment
+              (default blocklist.txt)
+  --dry-run   print what would change, change nothing
+  --sync      also unblock stored addresses that are not in the file`;
+
+function parseArgs(argv) {
+  const options = { dryRun: false, sync: false, file: "blocklist.txt" };
+  for (const arg of argv) {
+    if (arg === "--help" || arg === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (arg === "--sync") {
+      options.sync = true;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option "${arg}".\n\n${USAGE}`);
+    } else {
+      options.file = arg;
+    }
+  }
+  return options;
+}
+
+/**
+ * Splits `address,reason[,expiresAt]` on the first comma, so the reason may contain commas. The
+ * text after the last comma is the expiry only when it is an ISO 8601 date.
+ */
+export function splitBlockLine(line) {
+  const comma = line.indexOf(",");
+  if (comma === -1) return { address: line.trim(), reason: "", expiresAt: null };
+  const rest = line.slice(comma + 1);
+  const last = rest.lastIndexOf(",");
+  const tail = last === -1 ? "" : rest.slice(last + 1).trim();
+  const hasExpiry = EXPIRY_REGEX.test(tail) && !Number.isNaN(Date.parse(tail));
+  return {
+    address: line.slice(0, comma).trim(),
+    reason: (hasExpiry ? rest.slice(0, last) : rest).trim(),
+    expiresAt: hasExpiry ? tail : null
+  };
+}
+
+/** `#` starts a comment at the start of a line or after whitespace, so `#` inside a reason is kept. */
+export function parseBlocklist(content, file) {
+  const entries = new Map();
+  const invalid = [];
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) return;
+    const entry = parseBlockInput(splitBlockLine(line));
+    if (entry) entries.set(entry.address, entry);
+    else invalid.push(`${file}:${index + 1}`);
+  });
+  return { entries: [...entries.values()], invalid };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const filePath = path.resolve(process.cwd(), options.file);
+  const { entries, invalid } = parseBlocklist(await readFile(filePath, "utf8"), options.file);
+  for (const source of invalid) {
+    console.warn(`skipped ${source}: expected address,reason[,expiresAt]`);
+  }
+
+  await loadEnvLocal();
+  const store = getStore();
+  try {
+    const stored = await store.listBlocks();
+    const incoming = new Set(entries.map((entry) => entry.address));
+    const stale = stored.filter((entry) => !incoming.has(entry.address)).map((entry) => entry.address);
+    const known = new Map(stored.map((entry) => [entry.address, entry]));
+    const changed = entries.filter((entry) => {
+      const previous = known.get(entry.address);
+      return !previous || previous.reason !== entry.reason || previous.expiresAt !== entry.expiresAt;
+    });
+
+    console.log(`file: ${options.file}`);
+    console.log(`entries: ${entries.length}`);
+    console.log(`skipped_invalid: ${invalid.length}`);
+    console.log(`to_upsert: ${changed.length}`);
+    console.log(`${options.sync ? "to_remove" : "stale_kept"}: ${stale.length}`);
+    if (options.dryRun) {
+      console.log("dry run: nothing written");
+      return;
+    }
+
+    const audit = { actor: "script:import_blocklist", action: "blocklist.import" };
+    const summary = changed.length > 0 ? await store.upsertBlocks(changed, audit) : { inserted: 0, updated: 0 };
+    const removed =
+      options.sync && stale.length > 0
+        ? await store.removeBlocks(stale, { ...audit, action: "blocklist.sync_remove" })
+        : 0;
+    console.log(`inserted: ${summary.inserted}`);
+    console.log(`updated: ${summary.updated}`);
+    console.log(`removed: ${removed}`);
+  } finally {
+    await store.close();
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(error.message || "Blocklist import failed");
+    process.exitCode = 1;
+  });
+}
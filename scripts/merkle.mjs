@@ -0,0 +1,57 @@
+import { encodePacked, keccak256 } from "viem";
+
+export const LEAF_ENCODING = "keccak256(abi.encodePacked(address account, uint256 allocation))";
+
+export function hashLeaf(address, allocation) {
+  return keccak256(encodePacked(["address", "uint256"], [address, BigInt(allocation)]));
+}
+
+function hashPair(a, b) {
+  const [left, right] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return keccak256(`${left}${right.slice(2)}`);
+}
+
+/**
+ * Builds a sorted-pair keccak256 tree (OpenZeppelin `MerkleProof.verify` compatible) over
+ * `[address, allocation]` entries. Leaves are sorted so the root only depends on the set of
+ * entries; an odd node at any level is carried up unchanged.
+ */
+export function buildMerkleTree(entries) {
+  const leaves = entries
+    .map(([address, allocation]) => ({ address, allocation, leaf: hashLeaf(address, allocation) }))
+    .sort((a, b) => (a.leaf < b.leaf ? -1 : a.leaf > b.leaf ? 1 : 0));
+
+  if (leaves.length === 0) {
+    return { root: `0x${"0".repeat(64)}`, proofs: new Map() };
+  }
+
+  const layers = [leaves.map((item) => item.leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs = new Map();
+  leaves.forEach((item, leafIndex) => {
+    const proof = [];
+    let index = leafIndex;
+    for (let level = 0; level < layers.length - 1; level += 1) {
+      const sibling = index ^ 1;
+      if (sibling < layers[level].length) {
+        proof.push(layers[level][sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    proofs.set(item.address, { allocation: item.allocation, leaf: item.leaf, proof });
+  });
+
+  return { root: layers[layers.length - 1][0], proofs };
+}
+
+export function verifyProof(root, leaf, proof) {
+  return proof.reduce((computed, sibling) => hashPair(computed, sibling), leaf) === root;
+}
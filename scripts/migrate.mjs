@@ -0,0 +1,28 @@
+import { getStorageDriver, getStore } from "../api/_lib/storage/index.ts";
+import { loadEnvLocal } from "./env.mjs";
+
+async function main() {
+  await loadEnvLocal();
+  if (getStorageDriver() !== "postgres") {
+    console.log(`storage driver "${getStorageDriver()}" has no schema; nothing to migrate`);
+    return;
+  }
+
+  const store = getStore();
+  try {
+    const applied = await store.migrate();
+    if (applied.length === 0) {
+      console.log("schema is up to date");
+    }
+    for (const name of applied) {
+      console.log(`applied ${name}`);
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message || "Migration failed");
+  process.exitCode = 1;
+});
@@ -0,0 +1,69 @@
+import { createServer } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { pathToFileURL } from "node:url";
+import { SIGNATURE_HEADER, signWebhook, TIMESTAMP_HEADER } from "../api/_lib/webhooks.ts";
+
+// Local stand-in for a webhook consumer: checks signatures, logs events and can be told to
+// fail so retries and the dead-letter state can be exercised without a real integration.
+const USAGE = `Usage: npm run webhooks:receiver -- --secret <secret> [--port 8787] [--fail-first <n>] [--fail-all]`;
+
+function parseArgs(argv) {
+  const options = { port: 8787, secret: "", failFirst: 0, failAll: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === "--port") options.port = Number.parseInt(argv[(i += 1)] ?? "", 10);
+    else if (arg === "--secret") options.secret = argv[(i += 1)] ?? "";
+    else if (arg === "--fail-first") options.failFirst = Number.parseInt(argv[(i += 1)] ?? "", 10) || 0;
+    else if (arg === "--fail-all") options.failAll = true;
+    else throw new Error(`Unknown argument "${arg}".\n\n${USAGE}`);
+  }
+  if (!options.secret || !Number.isInteger(options.port)) {
+    throw new Error(USAGE);
+  }
+  return options;
+}
+
+function sameSignature(a, b) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * A server that answers 204 to correctly signed deliveries, 401 to the rest, and 503 while it is
+ * told to fail. Exported so tests can dispatch to it in process.
+ */
+export function createWebhookReceiver({ secret, failFirst = 0, failAll = false, log = console.log }) {
+  let received = 0;
+  return createServer((req, res) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const timestamp = String(req.headers[TIMESTAMP_HEADER] ?? "");
+      const signature = String(req.headers[SIGNATURE_HEADER] ?? "");
+      received += 1;
+
+      if (!sameSignature(signature, signWebhook(secret, timestamp, body))) {
+        log(`#${received} rejected: bad signature`);
+        res.writeHead(401).end();
+        return;
+      }
+      if (failAll || received <= failFirst) {
+        log(`#${received} failing on purpose`);
+        res.writeHead(503).end();
+        return;
+      }
+      const event = JSON.parse(body);
+      log(`#${received} ${event.type} ${event.address} (event ${event.id})`);
+      res.writeHead(204).end();
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const options = parseArgs(process.argv.slice(2));
+  createWebhookReceiver(options).listen(options.port, () => {
+    console.log(`listening on http://localhost:${options.port}`);
+  });
+}
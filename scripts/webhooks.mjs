@@ -0,0 +1,73 @@
+import { getStore } from "../api/_lib/storage/index.ts";
+import { dispatchWebhooks, loadWebhookEndpoints } from "../api/_lib/webhooks.ts";
+import { loadEnvLocal } from "./env.mjs";
+
+const USAGE = `Usage: npm run webhooks -- [dispatch | replay [--endpoint <name>] [--event <id> ...]]
+
+  dispatch            send every due delivery (default)
+  replay              re-queue dead deliveries
+  --endpoint <name>   only this endpoint
+  --event <id>        re-queue this event whatever its state (repeatable)`;
+
+function parseArgs(argv) {
+  const options = { command: "dispatch", endpoint: undefined, eventIds: [] };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      options.command = "help";
+    } else if (arg === "dispatch" || arg === "replay") {
+      options.command = arg;
+    } else if (arg === "--endpoint") {
+      options.endpoint = argv[(i += 1)];
+    } else if (arg === "--event") {
+      const id = argv[(i += 1)] ?? "";
+      if (!/^\d+$/.test(id)) throw new Error(`Invalid event id "${id}".\n\n${USAGE}`);
+      options.eventIds.push(id);
+    } else {
+      throw new Error(`Unknown argument "${arg}".\n\n${USAGE}`);
+    }
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.command === "help") {
+    console.log(USAGE);
+    return;
+  }
+  await loadEnvLocal();
+
+  const store = getStore();
+  try {
+    if (options.command === "replay") {
+      const replayed = await store.replayDeliveries(
+        {
+          endpoint: options.endpoint,
+          eventIds: options.eventIds.length > 0 ? options.eventIds : undefined
+        },
+        { actor: "script:webhooks", action: "webhooks.replay" }
+      );
+      console.log(`replayed: ${replayed}`);
+      return;
+    }
+
+    const endpoints = loadWebhookEndpoints();
+    if (endpoints.length === 0) {
+      console.log("WEBHOOK_ENDPOINTS is empty; nothing to deliver");
+      return;
+    }
+    const summary = await dispatchWebhooks();
+    console.log(`endpoints: ${endpoints.map((endpoint) => endpoint.name).join(", ")}`);
+    console.log(`delivered: ${summary.delivered}`);
+    console.log(`retrying: ${summary.retrying}`);
+    console.log(`dead: ${summary.dead}`);
+  } finally {
+    await store.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message || "Webhook command failed");
+  process.exitCode = 1;
+});
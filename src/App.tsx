@@ -1,9 +1,14 @@
+import AddressForm from "./components/AddressForm";
+import CampaignProgress from "./components/CampaignProgress";
 import MouseReveal from "./components/MouseReveal";
 
 export default function App(): JSX.Element {
   return (
     <main className="app-shell" aria-label="Interactive mouse reveal scene">
-      <MouseReveal />
+      <MouseReveal>
+        <CampaignProgress />
+        <AddressForm />
+      </MouseReveal>
     </main>
   );
 }
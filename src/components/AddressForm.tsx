@@ -0,0 +1,551 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { useReveal } from "./revealContext";
+import { checkAddress, describeAddressProblem, shortenAddress, toChecksumAddress } from "../lib/address";
+import { API_ERROR_MESSAGES, ApiRequestError, readApiErrorCode } from "../lib/apiErrors";
+import { formatRateLimitMessage, RateLimitError, readRetryAfter } from "../lib/rateLimit";
+import { isTier, Tier, TIER_COPY } from "../lib/tiers";
+import { fetchMintProof, formatProofHex, MintProof } from "../lib/mintProof";
+import { fetchPhaseStatus, formatCountdown, PhaseStatus } from "../lib/phases";
+import {
+  AddressStatus,
+  clearVerifiedAddresses,
+  fetchAddressStatus,
+  forgetVerifiedAddresses,
+  readVerifiedAddresses,
+  rememberVerifiedAddress,
+  StoredAddress,
+  updateVerifiedAddress
+} from "../lib/verifiedAddresses";
+import { Challenge, getInjectedProvider, requestChallenge, signWithInjectedWallet, WalletError } from "../lib/wallet";
+
+const SIGNATURE_REGEX = /^0x[a-fA-F0-9]{130}$/;
+// Remembered wallets re-checked on load; each is one rate-limited status lookup.
+const MAX_RECHECKED_ADDRESSES = 5;
+
+type CaptureStatus = "idle" | "loading" | "signing" | "manual" | "saved" | "error";
+
+/** A remembered wallet the server still reports as confirmed. */
+type SavedAddress = { entry: StoredAddress; status: AddressStatus };
+
+function formatVerifiedMessage(allocation: number | undefined, tier: Tier | null): string {
+  const lead = tier ? TIER_COPY[tier].confirmation : "Verified";
+  if (typeof allocation !== "number" || allocation <= 0) {
+    return tier ? lead : "Your address is verified";
+  }
+  return `${lead} — ${allocation} ${allocation === 1 ? "mint" : "mints"}`;
+}
+
+function formatAlreadyConfirmedMessage(confirmedAt: string | undefined): string {
+  const time = confirmedAt ? Date.parse(confirmedAt) : Number.NaN;
+  if (Number.isNaN(time)) {
+    return API_ERROR_MESSAGES.ALREADY_CONFIRMED;
+  }
+  const date = new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+  return `${API_ERROR_MESSAGES.ALREADY_CONFIRMED} (since ${date})`;
+}
+
+/**
+ * Confirms an allowlisted wallet by signature. Inside `<MouseReveal>` a successful
+ * confirmation wipes the scene back to the top layer, starting from the submit button.
+ * Wallets confirmed in this browser are remembered; on a later visit the form re-checks them
+ * and opens already verified and revealed.
+ */
+export default function AddressForm(): JSX.Element {
+  const scene = useReveal();
+  const submitButtonRef = useRef<HTMLButtonElement | null>(null);
+
+  const [address, setAddress] = useState("");
+  const [destination, setDestination] = useState("");
+  const [verifiedDestination, setVerifiedDestination] = useState<string | null>(null);
+  const [status, setStatus] = useState<CaptureStatus>("idle");
+  const [statusMessage, setStatusMessage] = useState("");
+  const [challenge, setChallenge] = useState<Challenge | null>(null);
+  const [manualSignature, setManualSignature] = useState("");
+  const [messageCopied, setMessageCopied] = useState(false);
+  const [mintProof, setMintProof] = useState<MintProof | null>(null);
+  const [verifiedTier, setVerifiedTier] = useState<Tier | null>(null);
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null);
+  const [phaseStatus, setPhaseStatus] = useState<PhaseStatus | null>(null);
+  const [phaseClockOffsetMs, setPhaseClockOffsetMs] = useState(0);
+  const [phaseNowMs, setPhaseNowMs] = useState(() => Date.now());
+  const [proofCopied, setProofCopied] = useState(false);
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  // Set once the visitor types, so a slow re-check never overwrites their input.
+  const editedRef = useRef(false);
+
+  const resetChallenge = (): void => {
+    setChallenge(null);
+    setManualSignature("");
+    setMessageCopied(false);
+  };
+
+  // Either address changing invalidates the signed challenge and any verified state.
+  const handleFormEdit = (): void => {
+    editedRef.current = true;
+    if (challenge) {
+      resetChallenge();
+    }
+    if (mintProof) {
+      setMintProof(null);
+      setProofCopied(false);
+    }
+    setVerifiedTier(null);
+    setVerifiedDestination(null);
+    if (status !== "idle" && rateLimitedUntil === null) {
+      setStatus("idle");
+      setStatusMessage("");
+    }
+    scene.reset();
+  };
+
+  const showSavedAddress = ({ entry, status: saved }: SavedAddress): void => {
+    resetChallenge();
+    setAddress(toChecksumAddress(entry.address));
+    setDestination("");
+    setStatus("saved");
+    setVerifiedTier(saved.tier);
+    // The server's mapping, not the copy in this browser: the destination may have changed since.
+    setVerifiedDestination(saved.destination ?? entry.address);
+    setStatusMessage(formatAlreadyConfirmedMessage(saved.confirmedAt ?? entry.confirmedAt ?? undefined));
+    setMintProof(null);
+    setProofCopied(false);
+    scene.reveal(submitButtonRef.current, { instant: true });
+    fetchMintProof(entry.address)
+      .then(setMintProof)
+      .catch(() => setMintProof(null));
+  };
+
+  const handleForgetSaved = (): void => {
+    clearVerifiedAddresses();
+    setSavedAddresses([]);
+    setAddress("");
+    setDestination("");
+    handleFormEdit();
+  };
+
+  const handleForgetOne = (forgotten: string): void => {
+    forgetVerifiedAddresses([forgotten]);
+    setSavedAddresses((current) => current.filter((item) => item.entry.address !== forgotten));
+    if (address.trim().toLowerCase() === forgotten) {
+      setAddress("");
+      setDestination("");
+      handleFormEdit();
+    }
+  };
+
+  const submitConfirmation = async (
+    trimmed: string,
+    message: string,
+    signature: string,
+    source: "wallet" | "manual"
+  ): Promise<void> => {
+    setStatus("loading");
+    setStatusMessage("");
+
+    const response = await fetch("/api/monad-address", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ address: trimmed, message, signature, source })
+    });
+    const data = (await response.json()) as {
+      ok?: boolean;
+      verified?: boolean;
+      confirmedAt?: string;
+      destination?: string | null;
+      destinationUpdated?: boolean;
+      allocation?: number;
+      tier?: string | null;
+      code?: string;
+      retryAfter?: number;
+    };
+
+    if (response.status === 429) {
+      throw new RateLimitError(readRetryAfter(response, data));
+    }
+
+    const code = response.ok && data.ok ? null : readApiErrorCode(data);
+    if (code && code !== "ALREADY_CONFIRMED") {
+      throw new ApiRequestError(code);
+    }
+
+    if (data.verified) {
+      resetChallenge();
+      setStatus("saved");
+      const tier = isTier(data.tier) ? data.tier : null;
+      setVerifiedTier(tier);
+      setVerifiedDestination(data.destination ?? trimmed.toLowerCase());
+      setStatusMessage(
+        data.destinationUpdated
+          ? "Destination updated"
+          : code === "ALREADY_CONFIRMED"
+            ? formatAlreadyConfirmedMessage(data.confirmedAt)
+            : formatVerifiedMessage(data.allocation, tier)
+      );
+      scene.reveal(submitButtonRef.current);
+      fetchMintProof(trimmed)
+        .then(setMintProof)
+        .catch(() => setMintProof(null));
+      const normalized = trimmed.toLowerCase();
+      const confirmedAt = data.confirmedAt ?? new Date().toISOString();
+      const entry: StoredAddress = {
+        address: normalized,
+        destination: data.destination && data.destination !== normalized ? data.destination : null,
+        confirmedAt
+      };
+      rememberVerifiedAddress(entry);
+      const saved: AddressStatus = {
+        address: normalized,
+        allowlisted: true,
+        tier,
+        allocation: data.allocation ?? null,
+        confirmed: true,
+        confirmedAt,
+        destination: entry.destination
+      };
+      setSavedAddresses((current) => [
+        { entry, status: saved },
+        ...current.filter((item) => item.entry.address !== normalized)
+      ]);
+    } else {
+      throw new ApiRequestError("INTERNAL");
+    }
+  };
+
+  // Without a readable schedule (older API, network error) the form stays usable and the
+  // server remains the authority on WINDOW_CLOSED.
+  const refreshPhases = async (): Promise<void> => {
+    const next = await fetchPhaseStatus();
+    setPhaseStatus(next);
+    if (next) {
+      setPhaseClockOffsetMs(Date.parse(next.now) - Date.now());
+    }
+  };
+
+  const windowClosed = phaseStatus !== null && !phaseStatus.open;
+
+  const handleAddressSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (
+      status === "saved" ||
+      status === "loading" ||
+      status === "signing" ||
+      rateLimitedUntil !== null ||
+      windowClosed
+    ) {
+      return;
+    }
+    const trimmed = address.trim();
+    const addressCheck = checkAddress(trimmed);
+    if (!addressCheck.ok) {
+      setStatus("error");
+      setStatusMessage(
+        addressCheck.problem === "checksum" ? describeAddressProblem("checksum") : API_ERROR_MESSAGES.INVALID_ADDRESS
+      );
+      return;
+    }
+    const trimmedDestination = destination.trim();
+    const destinationCheck = trimmedDestination ? checkAddress(trimmedDestination) : null;
+    if (destinationCheck && !destinationCheck.ok) {
+      setStatus("error");
+      setStatusMessage(
+        destinationCheck.problem === "checksum"
+          ? `Destination: ${describeAddressProblem("checksum")}`
+          : "Invalid Monad destination address"
+      );
+      return;
+    }
+
+    try {
+      if (challenge) {
+        const signature = manualSignature.trim();
+        if (!SIGNATURE_REGEX.test(signature)) {
+          setStatus("manual");
+          setStatusMessage("Paste the 0x… signature produced by your wallet");
+          return;
+        }
+        await submitConfirmation(trimmed, challenge.message, signature, "manual");
+        return;
+      }
+
+      setStatus("loading");
+      setStatusMessage("");
+      const issued = await requestChallenge(trimmed, trimmedDestination || null);
+
+      const provider = getInjectedProvider();
+      if (!provider) {
+        setChallenge(issued);
+        setStatus("manual");
+        setStatusMessage("No wallet detected — sign the message below and paste the signature");
+        return;
+      }
+
+      setStatus("signing");
+      setStatusMessage("Confirm the signature request in your wallet");
+      const signature = await signWithInjectedWallet(provider, trimmed, issued.message);
+      await submitConfirmation(trimmed, issued.message, signature, "wallet");
+    } catch (error) {
+      resetChallenge();
+      setStatus("error");
+      if (error instanceof RateLimitError) {
+        setRateLimitedUntil(Date.now() + error.retryAfterSeconds * 1000);
+        setStatusMessage(error.message);
+        return;
+      }
+      if (error instanceof ApiRequestError && error.code === "WINDOW_CLOSED") {
+        void refreshPhases();
+      }
+      if (error instanceof ApiRequestError || error instanceof WalletError) {
+        setStatusMessage(error.message);
+        return;
+      }
+      setStatusMessage("Network error, please try again");
+    }
+  };
+
+  useEffect(() => {
+    if (rateLimitedUntil === null) return;
+    const tick = (): void => {
+      const remainingMs = rateLimitedUntil - Date.now();
+      if (remainingMs <= 0) {
+        setRateLimitedUntil(null);
+        setStatus("idle");
+        setStatusMessage("");
+        return;
+      }
+      setStatusMessage(formatRateLimitMessage(remainingMs / 1000));
+    };
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [rateLimitedUntil]);
+
+  useEffect(() => {
+    void refreshPhases();
+  }, []);
+
+  // Entries the server no longer has as confirmed are dropped; failed lookups are kept for next time.
+  useEffect(() => {
+    const stored = readVerifiedAddresses().slice(0, MAX_RECHECKED_ADDRESSES);
+    if (stored.length === 0) return;
+    let cancelled = false;
+
+    void Promise.all(stored.map((entry) => fetchAddressStatus(entry.address))).then((statuses) => {
+      if (cancelled) return;
+      const confirmed: SavedAddress[] = [];
+      const unconfirmed: string[] = [];
+      stored.forEach((entry, index) => {
+        const saved = statuses[index];
+        if (saved?.confirmed) {
+          // Keep the remembered destination in step with the server's.
+          const destination = saved.destination === entry.address ? null : saved.destination;
+          const synced = destination === entry.destination ? entry : { ...entry, destination };
+          if (synced !== entry) updateVerifiedAddress(synced);
+          confirmed.push({ entry: synced, status: saved });
+        } else if (saved) unconfirmed.push(entry.address);
+      });
+      if (unconfirmed.length > 0) forgetVerifiedAddresses(unconfirmed);
+      setSavedAddresses(confirmed);
+      if (confirmed.length > 0 && !editedRef.current) showSavedAddress(confirmed[0]);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const phaseBoundaryMs = phaseStatus?.current
+    ? Date.parse(phaseStatus.current.end)
+    : phaseStatus?.next
+      ? Date.parse(phaseStatus.next.start)
+      : null;
+
+  useEffect(() => {
+    if (phaseBoundaryMs === null) return;
+    const tick = (): void => {
+      const now = Date.now() + phaseClockOffsetMs;
+      setPhaseNowMs(now);
+      if (now >= phaseBoundaryMs) {
+        void refreshPhases();
+      }
+    };
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [phaseBoundaryMs, phaseClockOffsetMs]);
+
+  const handleCopyProof = async (): Promise<void> => {
+    if (!mintProof) return;
+    try {
+      await navigator.clipboard.writeText(formatProofHex(mintProof.proof));
+      setProofCopied(true);
+    } catch {
+      setProofCopied(false);
+    }
+  };
+
+  const handleCopyMessage = async (): Promise<void> => {
+    if (!challenge) return;
+    try {
+      await navigator.clipboard.writeText(challenge.message);
+      setMessageCopied(true);
+    } catch {
+      setMessageCopied(false);
+    }
+  };
+
+  let phaseHelper: string | null = null;
+  if (phaseStatus && !phaseStatus.open) {
+    phaseHelper = phaseStatus.next
+      ? `${phaseStatus.next.name} opens in ${formatCountdown(Date.parse(phaseStatus.next.start) - phaseNowMs)}`
+      : "Confirmation is closed";
+  } else if (phaseStatus?.current) {
+    phaseHelper = `${phaseStatus.current.name} closes in ${formatCountdown(
+      Date.parse(phaseStatus.current.end) - phaseNowMs
+    )}`;
+  }
+
+  const statusClass = [
+    "address-status",
+    status === "loading" || status === "signing" || status === "manual" ? "is-loading" : "",
+    status === "saved" ? "is-saved" : "",
+    status === "error" ? "is-error" : ""
+  ]
+    .join(" ")
+    .trim();
+
+  return (
+    <form
+      className={`address-bar${status === "saved" && verifiedTier ? ` is-tier-${verifiedTier}` : ""}${
+        windowClosed ? " is-closed" : ""
+      }`}
+      onSubmit={handleAddressSubmit}
+      aria-label="Monad address form"
+    >
+      <div className="address-meta">
+        <span className="address-label">Allowlisted wallet</span>
+        {status === "saved" && verifiedTier ? (
+          <span className="address-tier">{TIER_COPY[verifiedTier].label}</span>
+        ) : (
+          <span className="address-helper">{phaseHelper ?? "Paste your wallet and sign to confirm"}</span>
+        )}
+      </div>
+      <input
+        className="address-input"
+        value={address}
+        onChange={(e) => {
+          setAddress(e.target.value);
+          handleFormEdit();
+        }}
+        placeholder="0x..."
+        inputMode="text"
+        autoComplete="off"
+        spellCheck={false}
+        aria-label="Monad address input"
+      />
+      <button
+        ref={submitButtonRef}
+        className={`address-submit${status === "saved" ? " is-verified" : ""}`}
+        type="submit"
+        disabled={
+          status === "loading" ||
+          status === "signing" ||
+          status === "saved" ||
+          rateLimitedUntil !== null ||
+          windowClosed
+        }
+        aria-label={challenge ? "Submit signature" : "Confirm address"}
+      >
+        {status === "loading" || status === "signing" ? <span className="spinner" aria-hidden="true" /> : "✓"}
+      </button>
+      {status === "saved" && verifiedDestination ? (
+        <div className="address-route" aria-label="Delivery route">
+          <code title={toChecksumAddress(address.trim())}>{shortenAddress(address.trim())}</code>
+          <span aria-hidden="true">→</span>
+          <code title={toChecksumAddress(verifiedDestination)}>{shortenAddress(verifiedDestination)}</code>
+        </div>
+      ) : (
+        <input
+          className="destination-input"
+          value={destination}
+          onChange={(e) => {
+            setDestination(e.target.value);
+            handleFormEdit();
+          }}
+          placeholder="Monad destination 0x… (optional, defaults to this wallet)"
+          inputMode="text"
+          autoComplete="off"
+          spellCheck={false}
+          aria-label="Monad destination address input"
+        />
+      )}
+      {savedAddresses.length > 0 ? (
+        <div className="address-saved" aria-label="Wallets confirmed in this browser">
+          {savedAddresses.map((saved) => (
+            <span key={saved.entry.address} className="saved-address-item">
+              <button
+                type="button"
+                className="saved-address"
+                aria-pressed={status === "saved" && address.trim().toLowerCase() === saved.entry.address}
+                title={toChecksumAddress(saved.entry.address)}
+                onClick={() => showSavedAddress(saved)}
+              >
+                {shortenAddress(saved.entry.address)}
+              </button>
+              <button
+                type="button"
+                className="saved-address-remove"
+                aria-label={`Forget ${shortenAddress(saved.entry.address)}`}
+                title="Forget this wallet"
+                onClick={() => handleForgetOne(saved.entry.address)}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button type="button" className="challenge-copy" onClick={handleForgetSaved}>
+            Forget
+          </button>
+        </div>
+      ) : null}
+      {challenge ? (
+        <div className="address-challenge">
+          <textarea
+            className="challenge-message"
+            value={challenge.message}
+            readOnly
+            rows={4}
+            spellCheck={false}
+            onFocus={(e) => e.currentTarget.select()}
+            aria-label="Message to sign"
+          />
+          <div className="challenge-actions">
+            <button type="button" className="challenge-copy" onClick={handleCopyMessage}>
+              {messageCopied ? "Copied" : "Copy message"}
+            </button>
+            <input
+              className="challenge-signature"
+              value={manualSignature}
+              onChange={(e) => setManualSignature(e.target.value)}
+              placeholder="0x… signature"
+              autoComplete="off"
+              spellCheck={false}
+              aria-label="Signature input"
+            />
+          </div>
+        </div>
+      ) : null}
+      {status === "saved" && mintProof ? (
+        <div className="address-proof">
+          <code className="proof-hex" title={formatProofHex(mintProof.proof)}>
+            {formatProofHex(mintProof.proof)}
+          </code>
+          <button type="button" className="challenge-copy" onClick={handleCopyProof}>
+            {proofCopied ? "Copied" : "Copy proof"}
+          </button>
+        </div>
+      ) : null}
+      <div className={statusClass} aria-live="polite">
+        {statusMessage}
+      </div>
+    </form>
+  );
+}
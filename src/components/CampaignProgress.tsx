@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { CampaignStats, fetchCampaignStats } from "../lib/stats";
+
+type CampaignProgressProps = {
+  refreshMs?: number;
+};
+
+/**
+ * Live confirmation progress. Keeps showing the last numbers it got when a refresh fails and
+ * renders nothing until the first successful load, so an unavailable stats route only hides it.
+ */
+export default function CampaignProgress({ refreshMs = 30_000 }: CampaignProgressProps): JSX.Element | null {
+  const [stats, setStats] = useState<CampaignStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = async (): Promise<void> => {
+      if (document.hidden) return;
+      const next = await fetchCampaignStats();
+      if (!cancelled && next) {
+        setStats(next);
+      }
+    };
+    void refresh();
+    const interval = window.setInterval(() => void refresh(), refreshMs);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+    };
+  }, [refreshMs]);
+
+  if (!stats) return null;
+
+  const lastHour = stats.hourly[stats.hourly.length - 1]?.confirmed ?? 0;
+  return (
+    <div className="campaign-progress" role="status" aria-live="polite">
+      <div className="progress-copy">
+        <span>
+          {stats.confirmed.toLocaleString()} / {stats.allowlisted.toLocaleString()} confirmed
+        </span>
+        <span className="progress-percentage">{stats.percentage.toFixed(1)}%</span>
+      </div>
+      <div
+        className="progress-track"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={stats.percentage}
+        aria-label="Allowlist confirmation progress"
+      >
+        <div className="progress-fill" style={{ width: `${Math.min(100, stats.percentage)}%` }} />
+      </div>
+      {lastHour > 0 ? <span className="progress-recent">+{lastHour.toLocaleString()} this hour</span> : null}
+    </div>
+  );
+}
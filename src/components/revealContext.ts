@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+
+/** What content inside `<MouseReveal>` can do to the scene around it. */
+export type RevealController = {
+  /**
+   * Wipes back to the top layer, growing from the centre of `origin` (the viewport centre without one).
+   * `instant` jumps straight to the finished wipe without calling `onReveal`, for state restored on load.
+   */
+  reveal: (origin?: HTMLElement | null, options?: { instant?: boolean }) => void;
+  /** Cancels or undoes a wipe. */
+  reset: () => void;
+};
+
+const NO_SCENE: RevealController = {
+  reveal: () => undefined,
+  reset: () => undefined
+};
+
+export const RevealContext = createContext<RevealController>(NO_SCENE);
+
+/** The enclosing reveal scene; outside of one the calls do nothing, so slot content also works standalone. */
+export function useReveal(): RevealController {
+  return useContext(RevealContext);
+}
@@ -0,0 +1,52 @@
+import { getAddress } from "viem";
+
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+export type AddressProblem = "format" | "checksum";
+
+/** `address` is lowercased: the form stored and compared everywhere. */
+export type AddressCheck = { ok: true; address: string } | { ok: false; problem: AddressProblem };
+
+/**
+ * Validates a 0x address. All-lowercase and all-uppercase hex carry no checksum and are
+ * accepted as they are; mixed case must be a correct EIP-55 checksum, so a typo in a
+ * checksummed address is caught instead of silently lowercased.
+ */
+export function checkAddress(value: string): AddressCheck {
+  const trimmed = value.trim();
+  if (!ADDRESS_REGEX.test(trimmed)) {
+    return { ok: false, problem: "format" };
+  }
+  const hex = trimmed.slice(2);
+  const mixedCase = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+  if (mixedCase && toChecksumAddress(trimmed) !== trimmed) {
+    return { ok: false, problem: "checksum" };
+  }
+  return { ok: true, address: trimmed.toLowerCase() };
+}
+
+export function isValidAddress(value: unknown): value is string {
+  return typeof value === "string" && checkAddress(value).ok;
+}
+
+/** The lowercased address, or null when `value` is not a valid address. */
+export function normalizeAddress(value: string): string | null {
+  const check = checkAddress(value);
+  return check.ok ? check.address : null;
+}
+
+/** EIP-55 form for display and exports. `address` must already be valid. */
+export function toChecksumAddress(address: string): string {
+  return getAddress(address.toLowerCase());
+}
+
+export function shortenAddress(address: string): string {
+  const display = toChecksumAddress(address);
+  return `${display.slice(0, 6)}…${display.slice(-4)}`;
+}
+
+export function describeAddressProblem(problem: AddressProblem): string {
+  return problem === "checksum"
+    ? "Address checksum does not match, check it for typos"
+    : "Invalid address, expected 0x followed by 40 hex characters";
+}
@@ -0,0 +1,64 @@
+/** Error contract shared by the `/api` routes and the client. */
+export const API_ERROR_STATUS = {
+  INVALID_REQUEST: 400,
+  INVALID_ADDRESS: 400,
+  INVALID_SIGNATURE: 401,
+  CHALLENGE_EXPIRED: 401,
+  UNAUTHORIZED: 401,
+  NOT_ALLOWLISTED: 403,
+  ADDRESS_BLOCKED: 403,
+  WINDOW_CLOSED: 403,
+  NOT_CONFIRMED: 404,
+  METHOD_NOT_ALLOWED: 405,
+  ALREADY_CONFIRMED: 409,
+  DESTINATION_LOCKED: 409,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+  STORAGE_UNAVAILABLE: 503
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+export type ApiErrorBody = {
+  ok: false;
+  code: ApiErrorCode;
+  error: string;
+  retryAfter?: number;
+};
+
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  INVALID_REQUEST: "Something was missing from the request, please try again",
+  INVALID_ADDRESS: "Invalid address",
+  INVALID_SIGNATURE: "Signature does not match this address",
+  CHALLENGE_EXPIRED: "Verification request expired, please try again",
+  UNAUTHORIZED: "Missing or invalid credentials",
+  NOT_ALLOWLISTED: "This address is not on the allowlist",
+  ADDRESS_BLOCKED: "This address can't be confirmed. Contact the team if you think this is a mistake",
+  WINDOW_CLOSED: "Confirmation is not open right now",
+  NOT_CONFIRMED: "Confirm this address first",
+  METHOD_NOT_ALLOWED: "Method not allowed",
+  ALREADY_CONFIRMED: "This address is already verified",
+  DESTINATION_LOCKED: "The delivery address can no longer be changed",
+  RATE_LIMITED: "Too many attempts, try again later",
+  INTERNAL: "Something went wrong, please try again",
+  STORAGE_UNAVAILABLE: "Verification is temporarily unavailable, please try again shortly"
+};
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(API_ERROR_STATUS, value);
+}
+
+export function readApiErrorCode(body: unknown): ApiErrorCode {
+  const code = typeof body === "object" && body !== null ? (body as { code?: unknown }).code : undefined;
+  return isApiErrorCode(code) ? code : "INTERNAL";
+}
+
+export class ApiRequestError extends Error {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string = API_ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
@@ -0,0 +1,17 @@
+export type MintProof = {
+  allocation: number;
+  root: string | null;
+  proof: string[];
+};
+
+export async function fetchMintProof(address: string): Promise<MintProof | null> {
+  const response = await fetch(`/api/monad-proof?address=${encodeURIComponent(address)}`);
+  if (!response.ok) return null;
+  const data = (await response.json()) as Partial<MintProof> & { ok?: boolean };
+  if (!data.ok || !Array.isArray(data.proof) || typeof data.allocation !== "number") return null;
+  return { allocation: data.allocation, root: data.root ?? null, proof: data.proof };
+}
+
+export function formatProofHex(proof: string[]): string {
+  return `[${proof.map((node) => `"${node}"`).join(",")}]`;
+}
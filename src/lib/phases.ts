@@ -0,0 +1,48 @@
+import type { Tier } from "./tiers";
+
+/** One confirmation window. `end` is exclusive; times are ISO 8601 strings. */
+export type Phase = {
+  name: string;
+  start: string;
+  end: string;
+  tiers: Tier[];
+};
+
+export type PhaseStatus = {
+  now: string;
+  open: boolean;
+  current: Phase | null;
+  next: Phase | null;
+};
+
+export function getPhaseStatus(phases: readonly Phase[], now: number = Date.now()): PhaseStatus {
+  const current = phases.find((phase) => Date.parse(phase.start) <= now && now < Date.parse(phase.end)) ?? null;
+  const next =
+    phases
+      .filter((phase) => Date.parse(phase.start) > now)
+      .sort((a, b) => Date.parse(a.start) - Date.parse(b.start))[0] ?? null;
+  return { now: new Date(now).toISOString(), open: current !== null, current, next };
+}
+
+/** Returns null when the schedule cannot be read, so the form can fall back to always-open. */
+export async function fetchPhaseStatus(): Promise<PhaseStatus | null> {
+  try {
+    const response = await fetch("/api/monad-address", { headers: { Accept: "application/json" } });
+    if (!response.ok) return null;
+    const data = (await response.json()) as Partial<PhaseStatus> & { ok?: boolean };
+    if (!data.ok || typeof data.now !== "string" || typeof data.open !== "boolean") return null;
+    return { now: data.now, open: data.open, current: data.current ?? null, next: data.next ?? null };
+  } catch {
+    return null;
+  }
+}
+
+export function formatCountdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(total / 86_400);
+  const hours = Math.floor((total % 86_400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  const clock = [hours, minutes, seconds].map((part) => String(part).padStart(2, "0")).join(":");
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
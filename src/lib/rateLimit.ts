@@ -0,0 +1,19 @@
+import { ApiRequestError } from "./apiErrors";
+
+export class RateLimitError extends ApiRequestError {
+  constructor(readonly retryAfterSeconds: number) {
+    super("RATE_LIMITED", formatRateLimitMessage(retryAfterSeconds));
+    this.name = "RateLimitError";
+  }
+}
+
+export function readRetryAfter(response: Response, body: { retryAfter?: unknown } | null): number {
+  const fromBody = typeof body?.retryAfter === "number" ? body.retryAfter : NaN;
+  const fromHeader = Number.parseInt(response.headers.get("Retry-After") ?? "", 10);
+  const seconds = Number.isFinite(fromBody) ? fromBody : fromHeader;
+  return Number.isFinite(seconds) && seconds > 0 ? Math.ceil(seconds) : 60;
+}
+
+export function formatRateLimitMessage(seconds: number): string {
+  return `Too many attempts, try again in ${Math.max(1, Math.ceil(seconds))}s`;
+}
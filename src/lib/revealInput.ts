@@ -0,0 +1,299 @@
+/**
+ * Where input puts the lens: 0..1 from the top left, clamped. `jump` marks a position that does not
+ * continue the last one (a new touch, the pointer coming back), so a scratch stroke restarts there.
+ * Tilt is -1..1 per axis, null when unused.
+ */
+export type RevealInputHandlers = {
+  onPointer: (x: number, y: number, jump: boolean) => void;
+  onTilt: (tilt: { x: number; y: number } | null) => void;
+};
+
+export type RevealInputOptions = {
+  /** Drift the lens along a slow loop after a stretch with no input. Ignored in scratch mode. */
+  autoWander: boolean;
+  /**
+   * Scratch mode: the lens only moves on real input, since every move paints. Touch puts it under
+   * the finger instead of dragging it, with no inertia.
+   */
+  scratch: boolean;
+};
+
+export type RevealInput = {
+  /**
+   * Starts tilt parallax, asking for motion access first where the browser requires it. Must run
+   * inside a user gesture (a click); resolves whether tilt is now on.
+   */
+  enableMotion: () => Promise<boolean>;
+  dispose: () => void;
+};
+
+// Arrow keys move the lens by this fraction of the viewport, Shift+arrow by the larger step.
+const KEY_STEP = 0.04;
+const KEY_STEP_LARGE = 0.12;
+
+// A released drag keeps going and slows by this factor per second until it is below MIN_INERTIA_SPEED (per second).
+const INERTIA_DECAY = 0.02;
+const MIN_INERTIA_SPEED = 0.01;
+
+// Auto-wander: a Lissajous loop around the centre, eased in from wherever the lens was left.
+const WANDER_DELAY_MS = 6000;
+const WANDER_EASE_IN_MS = 1500;
+const WANDER_RADIUS = { x: 0.26, y: 0.2 };
+const WANDER_PERIOD_S = { x: 17, y: 11 };
+
+// Degrees of tilt away from how the phone is held that reach full parallax. The resting pose
+// drifts towards the current one, so a change of grip recentres over a few seconds.
+const TILT_RANGE_DEG = 25;
+const TILT_REST_DRIFT = 0.01;
+
+// Drags starting on these keep their own touch behaviour.
+const INTERACTIVE_SELECTOR = "input, textarea, select, button, a, label";
+
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">;
+};
+
+/** Whether tilt parallax can be offered: a touch device that reports orientation. */
+export function supportsTiltParallax(): boolean {
+  return typeof DeviceOrientationEvent !== "undefined" && window.matchMedia("(pointer: coarse)").matches;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function clampUnit(value: number): number {
+  return Math.min(1, Math.max(-1, value));
+}
+
+function prefersReducedMotion(): boolean {
+  return window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+/**
+ * Turns input on `root` into lens positions: mouse and pen follow the pointer, touch drags the lens
+ * with inertia (or, in scratch mode, follows the finger), arrow keys nudge it while `root` has focus,
+ * and with no input it can wander on its own. Tilt parallax is opt-in through `enableMotion`.
+ */
+export function createRevealInput(
+  root: HTMLElement,
+  handlers: RevealInputHandlers,
+  options: RevealInputOptions
+): RevealInput {
+  const lens = { x: 0.5, y: 0.5 };
+  const velocity = { x: 0, y: 0 };
+  let drag: { id: number; x: number; y: number; time: number } | null = null;
+  let frame: number | null = null;
+  let wanderTimer: number | null = null;
+  let wander: { from: { x: number; y: number }; startedAt: number } | null = null;
+  let tiltRest: { x: number; y: number } | null = null;
+  let motionOn = false;
+  let destroyed = false;
+  // Whether the mouse or pen is over `root`; the first move after it comes back is a jump.
+  let hovering = false;
+
+  const moveLens = (x: number, y: number, jump = false): void => {
+    lens.x = clamp01(x);
+    lens.y = clamp01(y);
+    handlers.onPointer(lens.x, lens.y, jump);
+  };
+
+  const stopFrame = (): void => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+  };
+
+  const scheduleWander = (): void => {
+    if (wanderTimer !== null) window.clearTimeout(wanderTimer);
+    wanderTimer = null;
+    if (!options.autoWander || options.scratch || destroyed) return;
+    wanderTimer = window.setTimeout(startWander, WANDER_DELAY_MS);
+  };
+
+  /** Any real input cancels inertia and wandering and restarts the idle countdown. */
+  const onInput = (): void => {
+    stopFrame();
+    wander = null;
+    velocity.x = 0;
+    velocity.y = 0;
+    scheduleWander();
+  };
+
+  const wanderStep = (now: number): void => {
+    if (!wander) return;
+    const seconds = (now - wander.startedAt) / 1000;
+    const path = {
+      x: 0.5 + WANDER_RADIUS.x * Math.sin((2 * Math.PI * seconds) / WANDER_PERIOD_S.x),
+      y: 0.5 + WANDER_RADIUS.y * Math.sin((2 * Math.PI * seconds) / WANDER_PERIOD_S.y)
+    };
+    const t = Math.min(1, (now - wander.startedAt) / WANDER_EASE_IN_MS);
+    const eased = t * t * (3 - 2 * t);
+    moveLens(wander.from.x + (path.x - wander.from.x) * eased, wander.from.y + (path.y - wander.from.y) * eased);
+    frame = requestAnimationFrame(wanderStep);
+  };
+
+  function startWander(): void {
+    wanderTimer = null;
+    // Never pull the lens away from a field someone is filling in.
+    const focused = document.activeElement;
+    if (prefersReducedMotion() || drag || (focused && focused !== root && root.contains(focused))) {
+      scheduleWander();
+      return;
+    }
+    stopFrame();
+    wander = { from: { ...lens }, startedAt: performance.now() };
+    frame = requestAnimationFrame(wanderStep);
+  }
+
+  const inertiaStep = (previous: number) => (now: number): void => {
+    const delta = Math.min((now - previous) / 1000, 0.05);
+    const x = lens.x + velocity.x * delta;
+    const y = lens.y + velocity.y * delta;
+    // Stop dead at an edge rather than sliding along it.
+    if (x <= 0 || x >= 1) velocity.x = 0;
+    if (y <= 0 || y >= 1) velocity.y = 0;
+    moveLens(x, y);
+
+    const decay = Math.pow(INERTIA_DECAY, delta);
+    velocity.x *= decay;
+    velocity.y *= decay;
+    frame = Math.hypot(velocity.x, velocity.y) < MIN_INERTIA_SPEED ? null : requestAnimationFrame(inertiaStep(now));
+  };
+
+  const onPointerDown = (event: PointerEvent): void => {
+    if (event.pointerType !== "touch" || drag) return;
+    if (event.target instanceof Element && event.target.closest(INTERACTIVE_SELECTOR)) return;
+    onInput();
+    drag = { id: event.pointerId, x: event.clientX, y: event.clientY, time: event.timeStamp };
+    if (options.scratch) {
+      const rect = root.getBoundingClientRect();
+      moveLens((event.clientX - rect.left) / rect.width, (event.clientY - rect.top) / rect.height, true);
+    }
+  };
+
+  const onPointerMove = (event: PointerEvent): void => {
+    const rect = root.getBoundingClientRect();
+    if (event.pointerType !== "touch") {
+      onInput();
+      const jump = options.scratch && !hovering;
+      hovering = true;
+      moveLens((event.clientX - rect.left) / rect.width, (event.clientY - rect.top) / rect.height, jump);
+      return;
+    }
+    if (!drag || event.pointerId !== drag.id) return;
+    if (options.scratch) {
+      moveLens((event.clientX - rect.left) / rect.width, (event.clientY - rect.top) / rect.height);
+      return;
+    }
+
+    // A drag moves the lens by the finger's travel, so it never jumps to where the finger lands.
+    const dx = (event.clientX - drag.x) / rect.width;
+    const dy = (event.clientY - drag.y) / rect.height;
+    const seconds = Math.max((event.timeStamp - drag.time) / 1000, 0.001);
+    velocity.x = velocity.x * 0.2 + (dx / seconds) * 0.8;
+    velocity.y = velocity.y * 0.2 + (dy / seconds) * 0.8;
+    drag = { id: drag.id, x: event.clientX, y: event.clientY, time: event.timeStamp };
+    moveLens(lens.x + dx, lens.y + dy);
+    scheduleWander();
+  };
+
+  const onPointerUp = (event: PointerEvent): void => {
+    if (!drag || event.pointerId !== drag.id) return;
+    // A finger that rested before lifting leaves no throw.
+    const stale = event.timeStamp - drag.time > 80;
+    drag = null;
+    if (stale || options.scratch || event.type === "pointercancel" || prefersReducedMotion()) {
+      velocity.x = 0;
+      velocity.y = 0;
+      return;
+    }
+    stopFrame();
+    frame = requestAnimationFrame(inertiaStep(performance.now()));
+  };
+
+  const onPointerLeave = (event: PointerEvent): void => {
+    if (event.pointerType !== "touch") hovering = false;
+  };
+
+  const onKeyDown = (event: KeyboardEvent): void => {
+    scheduleWander();
+    // Keys typed into the form inside the scene are not lens input.
+    if (event.target !== root || event.altKey || event.ctrlKey || event.metaKey) return;
+    const step = event.shiftKey ? KEY_STEP_LARGE : KEY_STEP;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
+    const move = moves[event.key];
+    if (!move) return;
+    event.preventDefault();
+    onInput();
+    moveLens(lens.x + move[0], lens.y + move[1]);
+  };
+
+  const onOrientation = (event: DeviceOrientationEvent): void => {
+    if (event.beta === null || event.gamma === null) return;
+    // Map device axes onto the screen: gamma tilts left/right and beta forwards/back in portrait.
+    const angle = screen.orientation?.angle ?? 0;
+    const [x, y] =
+      angle === 90
+        ? [event.beta, -event.gamma]
+        : angle === 180
+          ? [-event.gamma, -event.beta]
+          : angle === 270
+            ? [-event.beta, event.gamma]
+            : [event.gamma, event.beta];
+
+    if (!tiltRest) tiltRest = { x, y };
+    tiltRest.x += (x - tiltRest.x) * TILT_REST_DRIFT;
+    tiltRest.y += (y - tiltRest.y) * TILT_REST_DRIFT;
+    handlers.onTilt({
+      x: clampUnit((x - tiltRest.x) / TILT_RANGE_DEG),
+      y: clampUnit((y - tiltRest.y) / TILT_RANGE_DEG)
+    });
+  };
+
+  root.addEventListener("pointerdown", onPointerDown, { passive: true });
+  root.addEventListener("pointermove", onPointerMove, { passive: true });
+  root.addEventListener("pointerup", onPointerUp, { passive: true });
+  root.addEventListener("pointercancel", onPointerUp, { passive: true });
+  root.addEventListener("pointerleave", onPointerLeave, { passive: true });
+  root.addEventListener("keydown", onKeyDown);
+  moveLens(0.5, 0.5, true);
+  scheduleWander();
+
+  return {
+    async enableMotion() {
+      if (motionOn) return true;
+      const orientation = DeviceOrientationEvent as DeviceOrientationEventWithPermission;
+      try {
+        if (orientation.requestPermission && (await orientation.requestPermission()) !== "granted") {
+          return false;
+        }
+      } catch {
+        return false;
+      }
+      if (destroyed) return false;
+      motionOn = true;
+      window.addEventListener("deviceorientation", onOrientation);
+      return true;
+    },
+    dispose() {
+      destroyed = true;
+      stopFrame();
+      if (wanderTimer !== null) window.clearTimeout(wanderTimer);
+      root.removeEventListener("pointerdown", onPointerDown);
+      root.removeEventListener("pointermove", onPointerMove);
+      root.removeEventListener("pointerup", onPointerUp);
+      root.removeEventListener("pointercancel", onPointerUp);
+      root.removeEventListener("pointerleave", onPointerLeave);
+      root.removeEventListener("keydown", onKeyDown);
+      if (motionOn) {
+        window.removeEventListener("deviceorientation", onOrientation);
+        handlers.onTilt(null);
+      }
+    }
+  };
+}
@@ -0,0 +1,765 @@
+import * as THREE from "three";
+import { createScratchMask, ScratchMask } from "./revealScratch";
+import { FitMode, pickVariantWidth, RevealLayer, TextureSet, TextureVariant, variantsAt } from "./revealTextures";
+
+/** Look of the reveal. Radius and feather are fractions of the viewport height. */
+export type RevealSceneOptions = {
+  radius: number;
+  feather: number;
+  /** Strength of the noise on the lens edge; 0 gives a clean circle. */
+  wobble: number;
+  /** Parallax depth; 1 moves the layers up to 26 × 18 px at the viewport edges. */
+  parallax: number;
+  /** Scratch mode: brush radius as a fraction of the viewport height. */
+  brush: number;
+  /** Scratch mode: how much of a cleared spot grows back per second, 0..1; 0 keeps scratches for good. */
+  heal: number;
+};
+
+/** `lens` shows the under layer around the pointer only; `scratch` keeps whatever the pointer has cleared. */
+export type RevealMode = "lens" | "scratch";
+
+/** Options left out fall back to `DEFAULT_REVEAL_OPTIONS`. */
+export type RevealSceneConfig = Partial<RevealSceneOptions> & {
+  textures: Record<RevealLayer, TextureSet>;
+  fit: FitMode;
+  mode?: RevealMode;
+  /** Scratch mode: percentage of the viewport cleared, 0..100, reported as it changes by a whole percent. */
+  onScratchProgress?: (percent: number) => void;
+  /**
+   * Called when the textures settle (and again after a context restore) with which layers loaded.
+   * Missing layers leave the canvas blank.
+   */
+  onLoad?: (loaded: Record<RevealLayer, boolean>) => void;
+  /** Called once if the canvas can no longer draw; the scene has stopped and the caller should fall back. */
+  onFallback?: (reason: RevealFailure) => void;
+};
+
+/** Why the canvas gave up: the context was lost for good, or the shader kept failing to compile. */
+export type RevealFailure = "context-lost" | "shader-error";
+
+export type RevealScene = {
+  /**
+   * Pointer position in 0..1 from the top left; the lens follows it with easing. With `jump` it moves
+   * there at once instead, and in scratch mode without painting: the next move starts a new stroke.
+   * Scratch mode paints nothing before the first move that is not a jump.
+   */
+  setPointer: (x: number, y: number, jump?: boolean) => void;
+  /** Device tilt, -1..1 per axis, drives the parallax instead of the pointer; null hands it back. */
+  setTilt: (tilt: { x: number; y: number } | null) => void;
+  /** Wipe back to the top layer from (x, y), 0..1 from the top left; `progress` 0 hides the wipe. */
+  setReveal: (x: number, y: number, progress: number) => void;
+  setOptions: (options: Partial<RevealSceneOptions>) => void;
+  dispose: () => void;
+};
+
+export const DEFAULT_REVEAL_OPTIONS: RevealSceneOptions = {
+  radius: 0.18,
+  feather: 0.08,
+  wobble: 1,
+  parallax: 1,
+  brush: 0.09,
+  heal: 0
+};
+
+// Pointer parallax in CSS pixels at the viewport edges; the under layer moves 1.24x as far.
+const PARALLAX_RANGE = { x: 26, y: 18 };
+const UNDER_PARALLAX_FACTOR = 1.24;
+
+// Once the lens has caught up with the pointer only the edge wobble still moves, so the loop drops
+// to IDLE_FPS; with no wobble (or reduced motion) it stops until the next input.
+const IDLE_FPS = 15;
+const SETTLED_UV = 0.0005;
+const SETTLED_PX = 0.01;
+// Caps the step after a long frame so easing does not jump.
+const MAX_FRAME_DELTA = 0.1;
+
+// Every PIXEL_RATIO_WINDOW busy frames the pixel ratio steps down when the average frame is
+// slower than 45 fps and back up (never past a ratio that was too slow) when faster than 57 fps.
+const PIXEL_RATIO_WINDOW = 60;
+const PIXEL_RATIO_STEP = 0.25;
+const MIN_PIXEL_RATIO = 1;
+const SLOW_FRAME_MS = 1000 / 45;
+const FAST_FRAME_MS = 1000 / 57;
+
+// A lost context that is not restored within this time counts as gone for good.
+const CONTEXT_RESTORE_TIMEOUT_MS = 3000;
+// The material is rebuilt after a compile error; this many errors switch to the fallback.
+const MAX_SHADER_ERRORS = 2;
+
+// Scratch coverage needs a GPU read back, so it is measured at most this often while it changes.
+const SCRATCH_MEASURE_INTERVAL_MS = 250;
+
+export function easeOutCubic(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+export function supportsWebgl(): boolean {
+  try {
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("webgl", { antialias: true }) || canvas.getContext("experimental-webgl");
+    return Boolean(context);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Starting device pixels per CSS pixel for the canvas and its textures; tall phones start lower to
+ * keep fill rate down. The scene then adapts the canvas ratio to measured frame time.
+ */
+export function getRenderPixelRatio(): number {
+  const isTallMobile = window.innerWidth <= 520 && window.innerHeight > window.innerWidth;
+  return Math.min(maxRenderPixelRatio(), isTallMobile ? 1.5 : 2);
+}
+
+function maxRenderPixelRatio(): number {
+  return Math.min(window.devicePixelRatio || 1, 2);
+}
+
+function loadTexture(loader: THREE.TextureLoader, path: string): Promise<THREE.Texture | null> {
+  return new Promise((resolve) => {
+    loader.load(
+      path,
+      (texture) => {
+        texture.colorSpace = THREE.SRGBColorSpace;
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        texture.wrapS = THREE.ClampToEdgeWrapping;
+        texture.wrapT = THREE.ClampToEdgeWrapping;
+        resolve(texture);
+      },
+      undefined,
+      () => resolve(null)
+    );
+  });
+}
+
+/** Tries each variant in turn, so a browser that cannot decode AVIF gets the WebP or JPEG. */
+async function loadFirstTexture(
+  loader: THREE.TextureLoader,
+  variants: TextureVariant[]
+): Promise<THREE.Texture | null> {
+  for (const variant of variants) {
+    const texture = await loadTexture(loader, variant.url);
+    if (texture) return texture;
+  }
+  return null;
+}
+
+function loadRevealTexture(loader: THREE.TextureLoader, set: TextureSet, fit: FitMode): Promise<THREE.Texture | null> {
+  const width = pickVariantWidth(set, window.innerWidth, window.innerHeight, getRenderPixelRatio(), fit);
+  return loadFirstTexture(loader, variantsAt(set, width));
+}
+
+/** Natural pixel size of a loaded texture; the variant's aspect matches the artwork's. */
+function textureSize(texture: THREE.Texture): THREE.Vector2 {
+  const image = texture.image as { naturalWidth?: number; naturalHeight?: number; width: number; height: number };
+  return new THREE.Vector2(image.naturalWidth || image.width || 1, image.naturalHeight || image.height || 1);
+}
+
+function parallaxMax(depth: number): THREE.Vector2 {
+  const scale = depth * UNDER_PARALLAX_FACTOR;
+  return new THREE.Vector2(PARALLAX_RANGE.x * 0.5, PARALLAX_RANGE.y * 0.5).multiplyScalar(scale);
+}
+
+export const REVEAL_VERTEX_SHADER = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position, 1.0);
+  }
+`;
+
+export const REVEAL_FRAGMENT_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uTop;
+  uniform sampler2D uUnder;
+  uniform vec2 uTopSize;
+  uniform vec2 uUnderSize;
+  uniform float uFit;
+  uniform vec2 uResolution;
+  uniform vec2 uCursor;
+  uniform vec2 uParallax;
+  uniform vec2 uParallaxMax;
+  uniform float uRadius;
+  uniform float uFeather;
+  uniform float uWobble;
+  uniform vec2 uRevealCenter;
+  uniform float uRevealProgress;
+  uniform float uRevealActive;
+  uniform float uTime;
+  uniform float uReducedMotion;
+  uniform sampler2D uScratch;
+  uniform float uScratchMode;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453123);
+  }
+
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    float a = hash(i);
+    float b = hash(i + vec2(1.0, 0.0));
+    float c = hash(i + vec2(0.0, 1.0));
+    float d = hash(i + vec2(1.0, 1.0));
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(a, b, u.x) + (c - a) * u.y * (1.0 - u.x) + (d - b) * u.x * u.y;
+  }
+
+  float fbm(vec2 p) {
+    float value = 0.0;
+    float amplitude = 0.5;
+    mat2 m = mat2(1.6, 1.2, -1.2, 1.6);
+    for (int i = 0; i < 5; i++) {
+      value += amplitude * noise(p);
+      p = m * p * 0.62 + vec2(17.0, 11.0);
+      amplitude *= 0.52;
+    }
+    return value;
+  }
+
+  vec2 clampUv(vec2 uv) {
+    return clamp(uv, vec2(0.001), vec2(0.999));
+  }
+
+  // Maps screen uv to image uv for an image of imageSize px. Cover crops to the
+  // viewport, zoomed just enough that the largest parallax offset stays inside the
+  // image; contain letterboxes and lets uv run outside 0..1.
+  vec2 fitUv(vec2 uv, vec2 imageSize, vec2 offsetPx) {
+    vec2 pxToUv = 1.0 / max(uResolution, vec2(1.0));
+    float viewAspect = uResolution.x / max(uResolution.y, 1.0);
+    float imageAspect = imageSize.x / max(imageSize.y, 1.0);
+    vec2 offset = offsetPx * pxToUv;
+    if (uFit > 0.5) {
+      vec2 scale = viewAspect > imageAspect
+        ? vec2(viewAspect / imageAspect, 1.0)
+        : vec2(1.0, imageAspect / viewAspect);
+      return (uv - 0.5 + offset) * scale + 0.5;
+    }
+    vec2 scale = viewAspect > imageAspect
+      ? vec2(1.0, imageAspect / viewAspect)
+      : vec2(viewAspect / imageAspect, 1.0);
+    vec2 margin = uParallaxMax * pxToUv;
+    scale /= 1.0 + 2.0 * max(margin.x, margin.y);
+    vec2 slack = 0.5 - 0.5 * scale;
+    return (uv - 0.5) * scale + 0.5 + clamp(offset * scale, -slack, slack);
+  }
+
+  vec4 sampleFitted(sampler2D image, vec2 uv) {
+    vec4 color = texture2D(image, clampUv(uv));
+    vec2 inside = step(vec2(0.0), uv) * step(uv, vec2(1.0));
+    return mix(vec4(1.0), color, inside.x * inside.y);
+  }
+
+  void main() {
+    vec2 uv = vUv;
+
+    vec2 cursor = uCursor;
+    float aspect = uResolution.x / max(uResolution.y, 1.0);
+
+    vec2 centered = (uv - cursor);
+    centered.x *= aspect;
+    float dist = length(centered);
+
+    float feather = max(uFeather, 0.0001);
+    float mask = smoothstep(uRadius, uRadius + feather, dist);
+    if (uScratchMode > 0.5) {
+      mask = 1.0 - texture2D(uScratch, uv).r;
+    }
+
+    float time = uTime * (1.0 - uReducedMotion);
+    float wobble = fbm(uv * 3.0 + vec2(time * 0.15, time * 0.09));
+    float wobble2 = fbm(uv * 7.0 - vec2(time * 0.07, time * 0.11));
+    float ripple = mix(wobble, wobble2, 0.4);
+    mask += (ripple - 0.5) * 0.02 * uWobble * (1.0 - uReducedMotion);
+    mask = clamp(mask, 0.0, 1.0);
+
+    vec4 topColor = sampleFitted(uTop, fitUv(uv, uTopSize, uParallax));
+    vec2 underOffset = -uParallax * ${UNDER_PARALLAX_FACTOR.toFixed(2)};
+    vec4 underColor = sampleFitted(uUnder, fitUv(uv, uUnderSize, underOffset));
+    vec4 composed = mix(topColor, underColor, mask);
+    if (uRevealActive > 0.5) {
+      vec2 revealCentered = (uv - uRevealCenter);
+      revealCentered.x *= aspect;
+      float revealDist = length(revealCentered);
+      float revealMaxRadius = mix(0.0, 2.2, clamp(uRevealProgress, 0.0, 1.0));
+      float revealSoft = 0.08;
+      float revealWipe = 1.0 - smoothstep(
+        max(revealMaxRadius - revealSoft, 0.0),
+        revealMaxRadius + revealSoft,
+        revealDist
+      );
+      composed = mix(composed, topColor, revealWipe);
+    }
+    gl_FragColor = vec4(composed.rgb, 1.0);
+  }
+`;
+
+/**
+ * Mounts the two-layer reveal into `host`: a full-viewport canvas where the under layer shows
+ * through a soft lens around the pointer, with parallax between the layers and an optional wipe
+ * back to the top layer. Has no React dependency; callers feed it pointer and wipe positions.
+ */
+export function createRevealScene(host: HTMLElement, config: RevealSceneConfig): RevealScene {
+  const reducedMotionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+  let reducedMotion = reducedMotionQuery.matches;
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false, powerPreference: "high-performance" });
+  renderer.setClearColor(0xffffff, 1);
+  renderer.outputColorSpace = THREE.SRGBColorSpace;
+
+  // IMPORTANT: disable filmic tone mapping to avoid contrast/effect changes on images
+  renderer.toneMapping = THREE.NoToneMapping;
+  renderer.toneMappingExposure = 1;
+
+  let pixelRatio = getRenderPixelRatio();
+  // Highest ratio not yet found too slow; reset when the viewport changes.
+  let pixelRatioCeiling = maxRenderPixelRatio();
+  renderer.setPixelRatio(pixelRatio);
+  host.appendChild(renderer.domElement);
+
+  const scene = new THREE.Scene();
+  const camera = new THREE.Camera();
+  const loader = new THREE.TextureLoader();
+  const clock = new THREE.Clock(false);
+  let options = { ...DEFAULT_REVEAL_OPTIONS, ...pickOptions(config) };
+  let destroyed = false;
+  let frame: number | null = null;
+  let idleTimer: number | null = null;
+  let elapsed = 0;
+  let topTexture: THREE.Texture | null = null;
+  let underTexture: THREE.Texture | null = null;
+  let material: THREE.ShaderMaterial | null = null;
+  let geometry: THREE.PlaneGeometry | null = null;
+  let mesh: THREE.Mesh | null = null;
+  // Bumped for every texture load, so a load that finishes after a context restore is dropped.
+  let generation = 0;
+  let failed = false;
+  let contextLost = false;
+  let restoreTimer: number | null = null;
+  let shaderErrors = 0;
+  let shaderErrored = false;
+  const scratchMode = config.mode === "scratch";
+  let scratch: ScratchMask | null = null;
+  let stroke: THREE.Vector2 | null = null;
+  // Lifted until real input moves the pointer, so the scene never scratches by itself.
+  let brushDown = false;
+  const strokeTo = new THREE.Vector2();
+  let scratchChanged = false;
+  let scratchMeasuredAt = 0;
+  let scratchCleared = 0;
+  let scratchPercent = -1;
+
+  const pointer = { x: 0.5, y: 0.5 };
+  const target = { x: 0.5, y: 0.5 };
+  const parallax = { x: 0, y: 0 };
+  let tilt: { x: number; y: number } | null = null;
+  const reveal = { x: 0.5, y: 0.5, progress: 0 };
+
+  let pageVisible = !document.hidden;
+  let onScreen = true;
+  // Set by input that changes the picture; cleared once a frame has drawn it.
+  let dirty = true;
+  // Frame times are only sampled between back-to-back busy frames, never across an idle gap.
+  let busy = false;
+  let frameTimeTotal = 0;
+  let frameTimeCount = 0;
+
+  const canRender = (): boolean =>
+    !destroyed && !failed && !contextLost && material !== null && pageVisible && onScreen;
+
+  const stop = (): void => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    if (idleTimer !== null) window.clearTimeout(idleTimer);
+    frame = null;
+    idleTimer = null;
+    busy = false;
+  };
+
+  const schedule = (idle: boolean): void => {
+    if (frame !== null || idleTimer !== null || !canRender()) return;
+    if (idle) {
+      idleTimer = window.setTimeout(() => {
+        idleTimer = null;
+        frame = requestAnimationFrame(render);
+      }, 1000 / IDLE_FPS);
+    } else {
+      frame = requestAnimationFrame(render);
+    }
+  };
+
+  /** Draws on the next animation frame, cutting short an idle wait. */
+  const wake = (): void => {
+    dirty = true;
+    if (idleTimer !== null) {
+      window.clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+    schedule(false);
+  };
+
+  const setPixelRatio = (next: number): void => {
+    if (next === pixelRatio) return;
+    pixelRatio = next;
+    renderer.setPixelRatio(pixelRatio);
+  };
+
+  const sampleFrameTime = (ms: number): void => {
+    frameTimeTotal += ms;
+    frameTimeCount += 1;
+    if (frameTimeCount < PIXEL_RATIO_WINDOW) return;
+
+    const average = frameTimeTotal / frameTimeCount;
+    frameTimeTotal = 0;
+    frameTimeCount = 0;
+    const floor = Math.min(MIN_PIXEL_RATIO, maxRenderPixelRatio());
+    if (average > SLOW_FRAME_MS && pixelRatio > floor) {
+      pixelRatioCeiling = Math.max(floor, pixelRatio - PIXEL_RATIO_STEP);
+      setPixelRatio(pixelRatioCeiling);
+    } else if (average < FAST_FRAME_MS && pixelRatio < pixelRatioCeiling) {
+      setPixelRatio(Math.min(pixelRatioCeiling, pixelRatio + PIXEL_RATIO_STEP));
+    }
+  };
+
+  const fail = (reason: RevealFailure): void => {
+    if (failed || destroyed) return;
+    failed = true;
+    stop();
+    config.onFallback?.(reason);
+  };
+
+  const createMaterial = (top: THREE.Texture, under: THREE.Texture): THREE.ShaderMaterial =>
+    new THREE.ShaderMaterial({
+      uniforms: {
+        uTop: { value: top },
+        uUnder: { value: under },
+        uTopSize: { value: textureSize(top) },
+        uUnderSize: { value: textureSize(under) },
+        uFit: { value: config.fit === "contain" ? 1.0 : 0.0 },
+        uResolution: { value: new THREE.Vector2(window.innerWidth, window.innerHeight) },
+        uCursor: { value: new THREE.Vector2(0.5, 0.5) },
+        uParallax: { value: new THREE.Vector2(0.0, 0.0) },
+        uParallaxMax: { value: parallaxMax(options.parallax) },
+        uRadius: { value: options.radius },
+        uFeather: { value: options.feather },
+        uWobble: { value: options.wobble },
+        uRevealCenter: { value: new THREE.Vector2(0.5, 0.5) },
+        uRevealProgress: { value: 0.0 },
+        uRevealActive: { value: 0.0 },
+        uTime: { value: 0.0 },
+        uReducedMotion: { value: reducedMotion ? 1.0 : 0.0 },
+        uScratch: { value: scratch?.texture ?? null },
+        uScratchMode: { value: scratch ? 1.0 : 0.0 }
+      },
+      vertexShader: REVEAL_VERTEX_SHADER,
+      fragmentShader: REVEAL_FRAGMENT_SHADER
+    });
+
+  const releaseResources = (): void => {
+    if (mesh) scene.remove(mesh);
+    material?.dispose();
+    geometry?.dispose();
+    topTexture?.dispose();
+    underTexture?.dispose();
+    scratch?.dispose();
+    mesh = null;
+    material = null;
+    geometry = null;
+    topTexture = null;
+    underTexture = null;
+    scratch = null;
+    stroke = null;
+  };
+
+  /** Loads both layers and builds the material; used at start and again after a context restore. */
+  const loadResources = (): void => {
+    const current = ++generation;
+    Promise.all([
+      loadRevealTexture(loader, config.textures.top, config.fit),
+      loadRevealTexture(loader, config.textures.under, config.fit)
+    ]).then(([top, under]) => {
+      if (destroyed || current !== generation) {
+        top?.dispose();
+        under?.dispose();
+        return;
+      }
+
+      topTexture = top;
+      underTexture = under;
+      config.onLoad?.({ top: Boolean(top), under: Boolean(under) });
+      if (!top || !under) return;
+
+      // A restored context starts a fresh mask; the old one went with the GPU memory.
+      if (scratchMode) scratch = createScratchMask(renderer);
+      material = createMaterial(top, under);
+      geometry = new THREE.PlaneGeometry(2, 2);
+      mesh = new THREE.Mesh(geometry, material);
+      scene.add(mesh);
+      resume();
+    });
+  };
+
+  /** Swaps in a freshly compiled material, or gives up after repeated compile errors. */
+  const onShaderError = (): void => {
+    shaderErrors += 1;
+    if (shaderErrors >= MAX_SHADER_ERRORS) {
+      fail("shader-error");
+      return;
+    }
+    if (!mesh || !topTexture || !underTexture) return;
+    material?.dispose();
+    material = createMaterial(topTexture, underTexture);
+    mesh.material = material;
+    wake();
+  };
+
+  /**
+   * Strokes from where the lens was drawn last frame to where it is now, healing as it goes. With
+   * the brush lifted it only heals.
+   */
+  const paintScratch = (delta: number): void => {
+    if (!scratch || !material) return;
+    if (!brushDown) {
+      if (scratchPercent < 0) scratchChanged = true;
+      if (options.heal > 0 && scratchCleared > 0) {
+        scratchChanged = true;
+        scratch.heal(options.heal * delta);
+        material.uniforms.uScratch.value = scratch.texture;
+      }
+      return;
+    }
+    strokeTo.set(pointer.x, 1.0 - pointer.y);
+    if (!stroke) stroke = strokeTo.clone();
+    const heal = options.heal * delta;
+    if (!stroke.equals(strokeTo) || heal > 0 || scratchPercent < 0) scratchChanged = true;
+    const aspect = window.innerWidth / Math.max(window.innerHeight, 1);
+    scratch.paint(stroke, strokeTo, options.brush, aspect, heal);
+    stroke.copy(strokeTo);
+    material.uniforms.uScratch.value = scratch.texture;
+  };
+
+  const measureScratch = (): void => {
+    if (!scratch) return;
+    scratchChanged = false;
+    scratchMeasuredAt = performance.now();
+    scratchCleared = scratch.measure();
+    const percent = Math.round(scratchCleared * 100);
+    if (percent !== scratchPercent) {
+      scratchPercent = percent;
+      config.onScratchProgress?.(percent);
+    }
+  };
+
+  const applyOptions = (): void => {
+    if (!material) return;
+    material.uniforms.uRadius.value = options.radius;
+    material.uniforms.uFeather.value = options.feather;
+    material.uniforms.uWobble.value = options.wobble;
+    material.uniforms.uParallaxMax.value.copy(parallaxMax(options.parallax));
+  };
+
+  /** The edge wobble moves with time and a healing mask keeps changing, even with the pointer at rest. */
+  const animatesWhileIdle = (): boolean =>
+    (!reducedMotion && options.wobble > 0) || (scratch !== null && options.heal > 0 && scratchCleared > 0);
+
+  const render = (): void => {
+    frame = null;
+    if (!canRender() || !material) return;
+
+    const rawDelta = clock.getDelta();
+    const delta = Math.min(rawDelta, MAX_FRAME_DELTA);
+    if (busy) sampleFrameTime(rawDelta * 1000);
+    elapsed += delta;
+
+    const depth = tilt ?? { x: (target.x - 0.5) * 2, y: (target.y - 0.5) * 2 };
+    const parallaxTarget = {
+      x: depth.x * 0.5 * PARALLAX_RANGE.x * options.parallax,
+      y: depth.y * 0.5 * PARALLAX_RANGE.y * options.parallax
+    };
+    const lerpAmt = reducedMotion ? 1.0 : 1.0 - Math.pow(0.0006, delta);
+    pointer.x += (target.x - pointer.x) * lerpAmt;
+    pointer.y += (target.y - pointer.y) * lerpAmt;
+    parallax.x += (parallaxTarget.x - parallax.x) * lerpAmt;
+    parallax.y += (parallaxTarget.y - parallax.y) * lerpAmt;
+
+    const settled =
+      Math.abs(target.x - pointer.x) < SETTLED_UV &&
+      Math.abs(target.y - pointer.y) < SETTLED_UV &&
+      Math.abs(parallaxTarget.x - parallax.x) < SETTLED_PX &&
+      Math.abs(parallaxTarget.y - parallax.y) < SETTLED_PX;
+    if (settled) {
+      pointer.x = target.x;
+      pointer.y = target.y;
+      parallax.x = parallaxTarget.x;
+      parallax.y = parallaxTarget.y;
+    }
+
+    material.uniforms.uCursor.value.set(pointer.x, 1.0 - pointer.y);
+    material.uniforms.uParallax.value.set(parallax.x, -parallax.y);
+    material.uniforms.uTime.value = elapsed;
+    material.uniforms.uReducedMotion.value = reducedMotion ? 1.0 : 0.0;
+    material.uniforms.uRevealCenter.value.set(reveal.x, 1.0 - reveal.y);
+    material.uniforms.uRevealProgress.value = reveal.progress;
+    material.uniforms.uRevealActive.value = reveal.progress > 0 ? 1.0 : 0.0;
+
+    paintScratch(delta);
+    renderer.render(scene, camera);
+    if (shaderErrored) {
+      shaderErrored = false;
+      onShaderError();
+      return;
+    }
+
+    busy = !settled || dirty;
+    dirty = false;
+    // Measure a changing mask every so often, and always on the last frame before the loop stops.
+    const stopping = !busy && !animatesWhileIdle();
+    if (scratchChanged && (stopping || performance.now() - scratchMeasuredAt >= SCRATCH_MEASURE_INTERVAL_MS)) {
+      measureScratch();
+    }
+    if (busy) {
+      schedule(false);
+    } else if (animatesWhileIdle()) {
+      schedule(true);
+    }
+  };
+
+  const resume = (): void => {
+    if (!canRender()) {
+      stop();
+      return;
+    }
+    // Restart the clock so time spent paused is not replayed as one long frame.
+    clock.start();
+    wake();
+  };
+
+  const onVisibilityChange = (): void => {
+    pageVisible = !document.hidden;
+    resume();
+  };
+
+  const onReducedMotionChange = (event: MediaQueryListEvent): void => {
+    reducedMotion = event.matches;
+    wake();
+  };
+
+  const intersectionObserver =
+    typeof IntersectionObserver === "undefined"
+      ? null
+      : new IntersectionObserver((entries) => {
+          onScreen = entries[entries.length - 1].isIntersecting;
+          resume();
+        });
+
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  reducedMotionQuery.addEventListener?.("change", onReducedMotionChange);
+  intersectionObserver?.observe(host);
+
+  // Replaces three.js's own report so errors can be counted; a lost context fails to compile too, so skip those.
+  renderer.debug.onShaderError = (gl) => {
+    if (gl.isContextLost()) return;
+    shaderErrored = true;
+    console.error("Reveal shader failed to compile");
+  };
+
+  // three.js calls preventDefault on the loss, which lets the browser restore the context later.
+  const onContextLost = (): void => {
+    contextLost = true;
+    stop();
+    if (restoreTimer === null) {
+      restoreTimer = window.setTimeout(() => fail("context-lost"), CONTEXT_RESTORE_TIMEOUT_MS);
+    }
+  };
+
+  // three.js has reset its GL state by now; rebuild everything on top of it. Pointer and wipe state
+  // live here, so a wipe that was running carries on from where it is now.
+  const onContextRestored = (): void => {
+    if (restoreTimer !== null) window.clearTimeout(restoreTimer);
+    restoreTimer = null;
+    contextLost = false;
+    if (failed || destroyed) return;
+    releaseResources();
+    loadResources();
+  };
+
+  renderer.domElement.addEventListener("webglcontextlost", onContextLost);
+  renderer.domElement.addEventListener("webglcontextrestored", onContextRestored);
+  loadResources();
+
+  const onResize = (): void => {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    // A new viewport (or a move to another display) changes the fill cost, so probe upwards again.
+    pixelRatioCeiling = maxRenderPixelRatio();
+    setPixelRatio(Math.min(pixelRatio, pixelRatioCeiling));
+    renderer.setSize(width, height, false);
+    if (material) {
+      material.uniforms.uResolution.value.set(width, height);
+    }
+    wake();
+  };
+  onResize();
+  window.addEventListener("resize", onResize, { passive: true });
+
+  return {
+    setPointer(x, y, jump = false) {
+      target.x = Math.min(1, Math.max(0, x));
+      target.y = Math.min(1, Math.max(0, y));
+      if (jump) {
+        pointer.x = target.x;
+        pointer.y = target.y;
+        stroke = null;
+        brushDown = false;
+      } else {
+        brushDown = true;
+      }
+      wake();
+    },
+    setTilt(next) {
+      tilt = next && { x: Math.min(1, Math.max(-1, next.x)), y: Math.min(1, Math.max(-1, next.y)) };
+      wake();
+    },
+    setReveal(x, y, progress) {
+      reveal.x = Math.min(1, Math.max(0, x));
+      reveal.y = Math.min(1, Math.max(0, y));
+      reveal.progress = Math.min(1, Math.max(0, progress));
+      wake();
+    },
+    setOptions(next) {
+      options = { ...options, ...pickOptions(next) };
+      applyOptions();
+      wake();
+    },
+    dispose() {
+      destroyed = true;
+      stop();
+      window.removeEventListener("resize", onResize);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      reducedMotionQuery.removeEventListener?.("change", onReducedMotionChange);
+      intersectionObserver?.disconnect();
+      if (restoreTimer !== null) window.clearTimeout(restoreTimer);
+      renderer.domElement.removeEventListener("webglcontextlost", onContextLost);
+      renderer.domElement.removeEventListener("webglcontextrestored", onContextRestored);
+
+      releaseResources();
+      renderer.dispose();
+
+      if (renderer.domElement.parentNode === host) {
+        host.removeChild(renderer.domElement);
+      }
+    }
+  };
+}
+
+/** Drops undefined entries so a partial update never overwrites a default with undefined. */
+function pickOptions(input: Partial<RevealSceneOptions>): Partial<RevealSceneOptions> {
+  const picked: Partial<RevealSceneOptions> = {};
+  for (const key of Object.keys(DEFAULT_REVEAL_OPTIONS) as (keyof RevealSceneOptions)[]) {
+    const value = input[key];
+    if (typeof value === "number" && Number.isFinite(value)) picked[key] = value;
+  }
+  return picked;
+}
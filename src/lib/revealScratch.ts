@@ -0,0 +1,193 @@
+import * as THREE from "three";
+
+// The mask covers the viewport whatever its aspect; brush strokes are soft, so 512 texels a side is plenty.
+const MASK_SIZE = 512;
+// Coverage is averaged down to COVERAGE_SIZE² texels on the GPU before the (synchronous) read back.
+const COVERAGE_SIZE = 32;
+const COVERAGE_TAPS = 8;
+// An 8-bit mask cannot lose less than 1/255 in one pass, so small per-frame heals are saved up.
+const MIN_HEAL_STEP = 2 / 255;
+
+/** A persistent scratch-off mask in screen uv (origin bottom left), painted with a round brush. */
+export type ScratchMask = {
+  /** How scratched each point is, 0 untouched to 1 cleared, in the red channel. Changes after every `paint`. */
+  readonly texture: THREE.Texture;
+  /**
+   * Strokes the brush from `from` to `to`, after healing the whole mask by `heal` (0..1). `brush` is
+   * the radius as a fraction of the viewport height and `aspect` the viewport width over height.
+   */
+  paint: (from: THREE.Vector2, to: THREE.Vector2, brush: number, aspect: number, heal: number) => void;
+  /** Heals the whole mask by `heal` (0..1) without painting, for frames where the brush is lifted. */
+  heal: (heal: number) => void;
+  /** Fraction of the mask cleared, 0..1. Stalls for a GPU read back, so call it a few times a second at most. */
+  measure: () => number;
+  dispose: () => void;
+};
+
+const PASS_VERTEX_SHADER = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position, 1.0);
+  }
+`;
+
+const PAINT_FRAGMENT_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uPrevious;
+  uniform vec2 uFrom;
+  uniform vec2 uTo;
+  uniform float uBrush;
+  uniform float uAspect;
+  uniform float uHeal;
+  uniform float uStrength;
+
+  float segmentDistance(vec2 p, vec2 a, vec2 b) {
+    vec2 pa = p - a;
+    vec2 ba = b - a;
+    float h = clamp(dot(pa, ba) / max(dot(ba, ba), 1e-8), 0.0, 1.0);
+    return length(pa - ba * h);
+  }
+
+  void main() {
+    vec2 scale = vec2(uAspect, 1.0);
+    float dist = segmentDistance(vUv * scale, uFrom * scale, uTo * scale);
+    float stroke = (1.0 - smoothstep(uBrush * 0.55, uBrush, dist)) * uStrength;
+    float previous = texture2D(uPrevious, vUv).r - uHeal;
+    gl_FragColor = vec4(vec3(max(previous, stroke)), 1.0);
+  }
+`;
+
+const COVERAGE_FRAGMENT_SHADER = `
+  varying vec2 vUv;
+  uniform sampler2D uMask;
+
+  void main() {
+    vec2 texel = vec2(1.0 / ${COVERAGE_SIZE.toFixed(1)});
+    float sum = 0.0;
+    for (int y = 0; y < ${COVERAGE_TAPS}; y++) {
+      for (int x = 0; x < ${COVERAGE_TAPS}; x++) {
+        vec2 tap = (vec2(float(x), float(y)) + 0.5) / ${COVERAGE_TAPS.toFixed(1)} - 0.5;
+        sum += texture2D(uMask, vUv + tap * texel).r;
+      }
+    }
+    gl_FragColor = vec4(vec3(sum / ${(COVERAGE_TAPS * COVERAGE_TAPS).toFixed(1)}), 1.0);
+  }
+`;
+
+function createTarget(size: number): THREE.WebGLRenderTarget {
+  return new THREE.WebGLRenderTarget(size, size, {
+    depthBuffer: false,
+    minFilter: THREE.LinearFilter,
+    magFilter: THREE.LinearFilter,
+    wrapS: THREE.ClampToEdgeWrapping,
+    wrapT: THREE.ClampToEdgeWrapping
+  });
+}
+
+/**
+ * Keeps the mask in two render targets and paints by ping-ponging between them, so each stroke
+ * reads the previous state. Starts fully untouched.
+ */
+export function createScratchMask(renderer: THREE.WebGLRenderer): ScratchMask {
+  const targets = [createTarget(MASK_SIZE), createTarget(MASK_SIZE)];
+  const coverageTarget = createTarget(COVERAGE_SIZE);
+  const pixels = new Uint8Array(COVERAGE_SIZE * COVERAGE_SIZE * 4);
+  const camera = new THREE.Camera();
+  const geometry = new THREE.PlaneGeometry(2, 2);
+  let current = 0;
+  let pendingHeal = 0;
+
+  const paintMaterial = new THREE.ShaderMaterial({
+    uniforms: {
+      uPrevious: { value: null },
+      uFrom: { value: new THREE.Vector2() },
+      uTo: { value: new THREE.Vector2() },
+      uBrush: { value: 0 },
+      uAspect: { value: 1 },
+      uHeal: { value: 0 },
+      uStrength: { value: 1 }
+    },
+    vertexShader: PASS_VERTEX_SHADER,
+    fragmentShader: PAINT_FRAGMENT_SHADER
+  });
+  const coverageMaterial = new THREE.ShaderMaterial({
+    uniforms: { uMask: { value: null } },
+    vertexShader: PASS_VERTEX_SHADER,
+    fragmentShader: COVERAGE_FRAGMENT_SHADER
+  });
+  const paintScene = new THREE.Scene().add(new THREE.Mesh(geometry, paintMaterial));
+  const coverageScene = new THREE.Scene().add(new THREE.Mesh(geometry, coverageMaterial));
+
+  const renderTo = (target: THREE.WebGLRenderTarget, scene: THREE.Scene): void => {
+    const previous = renderer.getRenderTarget();
+    renderer.setRenderTarget(target);
+    renderer.render(scene, camera);
+    renderer.setRenderTarget(previous);
+  };
+
+  const runPaint = (
+    from: THREE.Vector2,
+    to: THREE.Vector2,
+    brush: number,
+    aspect: number,
+    heal: number,
+    strength: number
+  ): void => {
+    pendingHeal += Math.max(0, heal);
+    const healNow = pendingHeal >= MIN_HEAL_STEP ? pendingHeal : 0;
+    pendingHeal -= healNow;
+    // Nothing to heal and nothing to paint: the mask stays as it is.
+    if (healNow === 0 && strength === 0) return;
+
+    const next = 1 - current;
+    paintMaterial.uniforms.uPrevious.value = targets[current].texture;
+    paintMaterial.uniforms.uFrom.value.copy(from);
+    paintMaterial.uniforms.uTo.value.copy(to);
+    paintMaterial.uniforms.uBrush.value = brush;
+    paintMaterial.uniforms.uAspect.value = aspect;
+    paintMaterial.uniforms.uHeal.value = healNow;
+    paintMaterial.uniforms.uStrength.value = strength;
+    renderTo(targets[next], paintScene);
+    current = next;
+  };
+
+  // Render targets are not guaranteed to start cleared.
+  const clearColor = renderer.getClearColor(new THREE.Color());
+  const clearAlpha = renderer.getClearAlpha();
+  renderer.setClearColor(0x000000, 1);
+  for (const target of targets) {
+    renderer.setRenderTarget(target);
+    renderer.clear();
+  }
+  renderer.setRenderTarget(null);
+  renderer.setClearColor(clearColor, clearAlpha);
+
+  return {
+    get texture() {
+      return targets[current].texture;
+    },
+    paint(from, to, brush, aspect, heal) {
+      runPaint(from, to, brush, aspect, heal, 1);
+    },
+    heal(heal) {
+      // A zero-strength stroke; the brush keeps a real radius so the shader's smoothstep stays defined.
+      runPaint(paintMaterial.uniforms.uFrom.value, paintMaterial.uniforms.uTo.value, 1, 1, heal, 0);
+    },
+    measure() {
+      coverageMaterial.uniforms.uMask.value = targets[current].texture;
+      renderTo(coverageTarget, coverageScene);
+      renderer.readRenderTargetPixels(coverageTarget, 0, 0, COVERAGE_SIZE, COVERAGE_SIZE, pixels);
+      let sum = 0;
+      for (let i = 0; i < pixels.length; i += 4) sum += pixels[i];
+      return sum / (255 * COVERAGE_SIZE * COVERAGE_SIZE);
+    },
+    dispose() {
+      for (const target of targets) target.dispose();
+      coverageTarget.dispose();
+      paintMaterial.dispose();
+      coverageMaterial.dispose();
+      geometry.dispose();
+    }
+  };
+}
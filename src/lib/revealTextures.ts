@@ -0,0 +1,72 @@
+import manifest from "./revealTextures.json";
+
+export type TextureFormat = "avif" | "webp" | "jpeg";
+
+export type TextureVariant = { url: string; width: number; format: TextureFormat };
+
+/** One artwork layer: its natural size and every rendered variant (`npm run build:textures`). */
+export type TextureSet = { width: number; height: number; variants: TextureVariant[] };
+
+export type RevealLayer = "top" | "under";
+
+export type FitMode = "cover" | "contain";
+
+export const REVEAL_TEXTURES = manifest as Record<RevealLayer, TextureSet>;
+
+const FORMAT_ORDER: TextureFormat[] = ["avif", "webp", "jpeg"];
+
+const MIME_TYPES: Record<TextureFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+  jpeg: "image/jpeg"
+};
+
+/**
+ * The smallest variant width that still fills the viewport at `dpr` device pixels per CSS
+ * pixel, or the largest one when none is big enough. Under `cover` the image must span the
+ * wider of the two viewport edges once scaled to the artwork's aspect.
+ */
+export function pickVariantWidth(
+  set: TextureSet,
+  viewportWidth: number,
+  viewportHeight: number,
+  dpr: number,
+  fit: FitMode = "cover"
+): number {
+  const aspect = set.width / set.height;
+  const cssWidth =
+    fit === "cover"
+      ? Math.max(viewportWidth, viewportHeight * aspect)
+      : Math.min(viewportWidth, viewportHeight * aspect);
+  const needed = cssWidth * dpr;
+  const widths = [...new Set(set.variants.map((variant) => variant.width))].sort((a, b) => a - b);
+  return widths.find((width) => width >= needed) ?? widths[widths.length - 1];
+}
+
+/** Variants at `width`, best format first, so a loader can fall back when one fails to decode. */
+export function variantsAt(set: TextureSet, width: number): TextureVariant[] {
+  return set.variants
+    .filter((variant) => variant.width === width)
+    .sort((a, b) => FORMAT_ORDER.indexOf(a.format) - FORMAT_ORDER.indexOf(b.format));
+}
+
+/**
+ * CSS `image-set()` over the same variants for the CSS fallback layer: the sizes this viewport
+ * needs at 1x and 2x, in every format. Falls back to a plain `url()` of the 1x JPEG when the
+ * browser cannot parse `image-set()` with `type()`.
+ */
+export function buildImageSet(set: TextureSet, viewportWidth: number, viewportHeight: number, fit: FitMode): string {
+  const single = pickVariantWidth(set, viewportWidth, viewportHeight, 1, fit);
+  const double = pickVariantWidth(set, viewportWidth, viewportHeight, 2, fit);
+  const entries = [
+    ...variantsAt(set, single).map((variant) => ({ variant, density: "1x" })),
+    ...(double === single ? [] : variantsAt(set, double).map((variant) => ({ variant, density: "2x" })))
+  ].map(({ variant, density }) => `url("${variant.url}") type("${MIME_TYPES[variant.format]}") ${density}`);
+  const imageSet = `image-set(${entries.join(", ")})`;
+
+  if (CSS.supports?.("background-image", imageSet)) {
+    return imageSet;
+  }
+  const fallback = variantsAt(set, single);
+  return `url("${(fallback.find((variant) => variant.format === "jpeg") ?? fallback[0]).url}")`;
+}
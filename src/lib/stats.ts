@@ -0,0 +1,31 @@
+import type { Tier } from "./tiers";
+
+export type ProgressCounts = {
+  allowlisted: number;
+  confirmed: number;
+  /** Confirmed share of allowlisted, 0–100 with one decimal. */
+  percentage: number;
+};
+
+export type CampaignStats = ProgressCounts & {
+  generatedAt: string;
+  tiers: Record<Tier, ProgressCounts>;
+  /** The last 24 hours, oldest first, one bucket per hour including empty ones. */
+  hourly: { hour: string; confirmed: number }[];
+};
+
+export function toPercentage(confirmed: number, allowlisted: number): number {
+  return allowlisted > 0 ? Math.round((confirmed / allowlisted) * 1000) / 10 : 0;
+}
+
+export async function fetchCampaignStats(): Promise<CampaignStats | null> {
+  try {
+    const response = await fetch("/api/monad-stats");
+    if (!response.ok) return null;
+    const data = (await response.json()) as Partial<CampaignStats> & { ok?: boolean };
+    if (!data.ok || typeof data.allowlisted !== "number" || typeof data.confirmed !== "number") return null;
+    return data as CampaignStats;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,22 @@
+export const TIERS = ["gtd", "fcfs", "base"] as const;
+
+export type Tier = (typeof TIERS)[number];
+
+export const TIER_COPY: Record<Tier, { label: string; confirmation: string }> = {
+  gtd: { label: "GTD", confirmation: "Guaranteed mint confirmed" },
+  fcfs: { label: "FCFS", confirmation: "First-come, first-served spot confirmed" },
+  base: { label: "Allowlist", confirmation: "Allowlist spot confirmed" }
+};
+
+export function isTier(value: unknown): value is Tier {
+  return typeof value === "string" && (TIERS as readonly string[]).includes(value);
+}
+
+/** Keeps known tiers only, deduped and ordered from strongest (GTD) to weakest. */
+export function sortTiers(values: readonly unknown[]): Tier[] {
+  return TIERS.filter((tier) => values.includes(tier));
+}
+
+export function primaryTier(values: readonly unknown[]): Tier | null {
+  return sortTiers(values)[0] ?? null;
+}
@@ -0,0 +1,140 @@
+import { normalizeAddress } from "./address";
+import { isTier, Tier } from "./tiers";
+
+/** A wallet this browser confirmed. Addresses are lowercase; `destination` is null when it is the wallet itself. */
+export type StoredAddress = {
+  address: string;
+  destination: string | null;
+  /** ISO 8601, or null for entries carried over from the unversioned list. */
+  confirmedAt: string | null;
+};
+
+/** What `GET /api/monad-status` says about one address. */
+export type AddressStatus = {
+  address: string;
+  allowlisted: boolean;
+  tier: Tier | null;
+  allocation: number | null;
+  confirmed: boolean;
+  confirmedAt: string | null;
+  /** The delivery address on file, or null when the mint goes to the wallet itself. */
+  destination: string | null;
+};
+
+const STORAGE_KEY = "we_verified_addresses";
+// Bump when the stored shape changes and teach `parseStored` to read the old one.
+const STORAGE_VERSION = 1;
+const MAX_STORED_ADDRESSES = 10;
+
+type StoredAddresses = { version: typeof STORAGE_VERSION; addresses: StoredAddress[] };
+
+function parseEntry(value: unknown): StoredAddress | null {
+  // Version 0 was a bare array of lowercase addresses.
+  if (typeof value === "string") {
+    const address = normalizeAddress(value);
+    return address ? { address, destination: null, confirmedAt: null } : null;
+  }
+  if (typeof value !== "object" || value === null) return null;
+  const entry = value as Partial<Record<keyof StoredAddress, unknown>>;
+  const address = typeof entry.address === "string" ? normalizeAddress(entry.address) : null;
+  if (!address) return null;
+  const destination = typeof entry.destination === "string" ? normalizeAddress(entry.destination) : null;
+  return {
+    address,
+    destination: destination === address ? null : destination,
+    confirmedAt: typeof entry.confirmedAt === "string" ? entry.confirmedAt : null
+  };
+}
+
+/** Reads any stored version; a format from a newer release reads as empty rather than being guessed at. */
+function parseStored(raw: string | null): StoredAddress[] {
+  if (!raw) return [];
+  const data = JSON.parse(raw) as unknown;
+  const list = Array.isArray(data)
+    ? data
+    : typeof data === "object" && data !== null && (data as { version?: unknown }).version === STORAGE_VERSION
+      ? (data as { addresses?: unknown }).addresses
+      : null;
+  if (!Array.isArray(list)) return [];
+
+  const seen = new Set<string>();
+  const entries: StoredAddress[] = [];
+  for (const value of list) {
+    const entry = parseEntry(value);
+    if (entry && !seen.has(entry.address)) {
+      seen.add(entry.address);
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+function writeStored(addresses: StoredAddress[]): void {
+  try {
+    if (addresses.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+    const data: StoredAddresses = { version: STORAGE_VERSION, addresses };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // ignore localStorage issues
+  }
+}
+
+/** Confirmed wallets remembered in this browser, most recent first. */
+export function readVerifiedAddresses(): StoredAddress[] {
+  try {
+    return parseStored(localStorage.getItem(STORAGE_KEY));
+  } catch {
+    return [];
+  }
+}
+
+/** Moves `entry` to the front of the list, replacing any older entry for the same wallet. */
+export function rememberVerifiedAddress(entry: StoredAddress): StoredAddress[] {
+  const next = [entry, ...readVerifiedAddresses().filter((stored) => stored.address !== entry.address)].slice(
+    0,
+    MAX_STORED_ADDRESSES
+  );
+  writeStored(next);
+  return next;
+}
+
+/** Replaces the entry for the same wallet where it stands; a wallet not in the list is left out. */
+export function updateVerifiedAddress(entry: StoredAddress): StoredAddress[] {
+  const next = readVerifiedAddresses().map((stored) => (stored.address === entry.address ? entry : stored));
+  writeStored(next);
+  return next;
+}
+
+export function forgetVerifiedAddresses(addresses: readonly string[]): StoredAddress[] {
+  const next = readVerifiedAddresses().filter((stored) => !addresses.includes(stored.address));
+  writeStored(next);
+  return next;
+}
+
+export function clearVerifiedAddresses(): void {
+  writeStored([]);
+}
+
+/** Returns null when the lookup fails (network, rate limit), so callers can keep the entry for next time. */
+export async function fetchAddressStatus(address: string): Promise<AddressStatus | null> {
+  try {
+    const response = await fetch(`/api/monad-status?address=${encodeURIComponent(address)}`);
+    if (!response.ok) return null;
+    const data = (await response.json()) as Partial<AddressStatus> & { ok?: boolean };
+    if (!data.ok || typeof data.address !== "string" || typeof data.confirmed !== "boolean") return null;
+    return {
+      address: data.address,
+      allowlisted: data.allowlisted === true,
+      tier: isTier(data.tier) ? data.tier : null,
+      allocation: typeof data.allocation === "number" ? data.allocation : null,
+      confirmed: data.confirmed,
+      confirmedAt: data.confirmedAt ?? null,
+      destination: typeof data.destination === "string" ? normalizeAddress(data.destination) : null
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,88 @@
+import { ApiRequestError, readApiErrorCode } from "./apiErrors";
+import { RateLimitError, readRetryAfter } from "./rateLimit";
+
+type Eip1193Provider = {
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+};
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+export type Challenge = {
+  nonce: string;
+  message: string;
+  expiresAt: string;
+};
+
+export class WalletError extends Error {
+  constructor(
+    message: string,
+    readonly code: "rejected" | "account-mismatch" | "unavailable"
+  ) {
+    super(message);
+    this.name = "WalletError";
+  }
+}
+
+export function getInjectedProvider(): Eip1193Provider | null {
+  if (typeof window === "undefined") return null;
+  return window.ethereum ?? null;
+}
+
+function toHexUtf8(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let hex = "0x";
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** `destination` is the Monad wallet to deliver to; it is embedded in the message to sign. */
+export async function requestChallenge(address: string, destination: string | null = null): Promise<Challenge> {
+  const response = await fetch("/api/monad-nonce", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(destination ? { address, destination } : { address })
+  });
+  const data = (await response.json()) as Partial<Challenge> & { ok?: boolean; code?: string; retryAfter?: number };
+  if (response.status === 429) {
+    throw new RateLimitError(readRetryAfter(response, data));
+  }
+  if (!response.ok || !data.ok || !data.message || !data.nonce || !data.expiresAt) {
+    throw new ApiRequestError(readApiErrorCode(data));
+  }
+  return { nonce: data.nonce, message: data.message, expiresAt: data.expiresAt };
+}
+
+export async function signWithInjectedWallet(
+  provider: Eip1193Provider,
+  address: string,
+  message: string
+): Promise<string> {
+  let accounts: string[];
+  try {
+    accounts = ((await provider.request({ method: "eth_requestAccounts" })) as string[]) ?? [];
+  } catch {
+    throw new WalletError("Wallet connection was rejected", "rejected");
+  }
+
+  const normalized = address.toLowerCase();
+  if (!accounts.some((account) => account.toLowerCase() === normalized)) {
+    throw new WalletError("Connected wallet does not match this address", "account-mismatch");
+  }
+
+  try {
+    const signature = await provider.request({ method: "personal_sign", params: [toHexUtf8(message), address] });
+    if (typeof signature !== "string") {
+      throw new WalletError("Wallet returned no signature", "unavailable");
+    }
+    return signature;
+  } catch (error) {
+    if (error instanceof WalletError) throw error;
+    throw new WalletError("Signature request was rejected", "rejected");
+  }
+}
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { mergeAllowlistLines, parseLine } from "../scripts/import_allowlist.mjs";
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+
+describe("parseLine", () => {
+  it("reads allocation and tier, defaulting to 1 and the file's tier", () => {
+    assert.deepEqual(parseLine(`${ADDRESS},3,gtd`, "base"), { address: ADDRESS, allocation: 3, tier: "gtd" });
+    assert.deepEqual(parseLine(ADDRESS, "fcfs"), { address: ADDRESS, allocation: 1, tier: "fcfs" });
+  });
+
+  it("rejects fractional allocations and unknown tiers", () => {
+    assert.deepEqual(parseLine(`${ADDRESS},1.5`, "base"), { error: "invalid allocation" });
+    assert.deepEqual(parseLine(`${ADDRESS},1,vip`, "base"), { error: 'unknown tier "vip"' });
+  });
+});
+
+describe("mergeAllowlistLines", () => {
+  it("keeps every tier and combines repeats with the merge strategy", () => {
+    const content = `${ADDRESS},2\n${ADDRESS},5,gtd\n0xnope\n`;
+    const max = new Map();
+    const result = mergeAllowlistLines(max, content, { file: "all.txt", tier: "base" });
+    assert.deepEqual(result.invalid, [{ source: "all.txt:3", line: "0xnope", reason: "invalid address" }]);
+    assert.equal(result.valid, 2);
+    assert.equal(max.get(ADDRESS).allocation, 5);
+    assert.deepEqual([...max.get(ADDRESS).tiers], ["base", "gtd"]);
+
+    const sum = new Map();
+    mergeAllowlistLines(sum, content, { file: "all.txt", tier: "base", merge: "sum" });
+    assert.equal(sum.get(ADDRESS).allocation, 7);
+  });
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseBlocklist, splitBlockLine } from "../scripts/import_blocklist.mjs";
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+
+describe("splitBlockLine", () => {
+  it("reads address, reason and expiry", () => {
+    assert.deepEqual(splitBlockLine(`${ADDRESS}, sybil cluster , 2026-12-31T00:00:00Z`), {
+      address: ADDRESS,
+      reason: "sybil cluster",
+      expiresAt: "2026-12-31T00:00:00Z"
+    });
+  });
+
+  it("keeps commas inside the reason", () => {
+    assert.deepEqual(splitBlockLine(`${ADDRESS},compromised, drained on 3 May,2026-06-01`), {
+      address: ADDRESS,
+      reason: "compromised, drained on 3 May",
+      expiresAt: "2026-06-01"
+    });
+    assert.deepEqual(splitBlockLine(`${ADDRESS},sybil, cluster 5`), {
+      address: ADDRESS,
+      reason: "sybil, cluster 5",
+      expiresAt: null
+    });
+  });
+
+  it("leaves the reason empty when there is none", () => {
+    assert.deepEqual(splitBlockLine(ADDRESS), { address: ADDRESS, reason: "", expiresAt: null });
+  });
+});
+
+describe("parseBlocklist", () => {
+  it("strips comments only at the start of a line or after whitespace", () => {
+    const content = [
+      "# treasury wallets",
+      `${ADDRESS},sybil cluster # flagged in review`,
+      `0x2222222222222222222222222222222222222222,ticket#12,2026-06-01`
+    ].join("\n");
+    const { entries, invalid } = parseBlocklist(content, "blocklist.txt");
+    assert.deepEqual(invalid, []);
+    assert.deepEqual(
+      entries.map((entry) => [entry.reason, entry.expiresAt]),
+      [
+        ["sybil cluster", null],
+        ["ticket#12", "2026-06-01T00:00:00.000Z"]
+      ]
+    );
+  });
+});
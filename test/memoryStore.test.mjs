@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { createMemoryStore } from "../api/_lib/storage/memory.ts";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const PROOF = [`0x${"ab".repeat(32)}`];
+const INPUT = { source: "wallet", userAgentHash: null, signature: "0x00" };
+
+function entry(address, overrides = {}) {
+  return { address, allocation: 1, tiers: ["base"], merkleProof: PROOF, ...overrides };
+}
+
+describe("memory store", () => {
+  it("counts inserts and real updates, and skips unchanged entries", async () => {
+    const store = createMemoryStore();
+    assert.deepEqual(await store.upsertAllowlistEntries([entry(ALICE), entry(BOB)]), { inserted: 2, updated: 0 });
+    assert.deepEqual(await store.upsertAllowlistEntries([entry(ALICE), entry(BOB, { allocation: 2 })]), {
+      inserted: 0,
+      updated: 1
+    });
+    assert.equal((await store.getAllowlistEntry(BOB)).allocation, 2);
+  });
+
+  it("applies upserts, removals and meta together", async () => {
+    const store = createMemoryStore();
+    await store.upsertAllowlistEntries([entry(ALICE)]);
+    const summary = await store.applyAllowlistChanges({
+      upserts: [entry(BOB)],
+      removals: [ALICE],
+      meta: { merkle_root: "0xroot" }
+    });
+    assert.deepEqual(summary, { inserted: 1, updated: 0, removed: 1 });
+    assert.deepEqual((await store.listAllowlistEntries()).map((row) => row.address), [BOB]);
+    assert.equal(await store.getMeta("merkle_root"), "0xroot");
+  });
+
+  it("confirms once and reports the original time on a repeat", async () => {
+    const store = createMemoryStore();
+    const first = await store.confirmAddress(ALICE, INPUT);
+    const second = await store.confirmAddress(ALICE, INPUT);
+    assert.equal(first.inserted, true);
+    assert.deepEqual(second, {
+      inserted: false,
+      confirmedAt: first.confirmedAt,
+      destination: null,
+      destinationChanged: false
+    });
+    assert.equal(await store.revokeConfirmation(ALICE), true);
+    assert.equal(await store.isConfirmed(ALICE), false);
+  });
+
+  it("only hands out a mint proof to a confirmed address that has one", async () => {
+    const store = createMemoryStore();
+    await store.applyAllowlistChanges({
+      upserts: [entry(ALICE, { allocation: 3 }), entry(BOB, { merkleProof: null })],
+      removals: [],
+      meta: { merkle_root: "0xroot" }
+    });
+    assert.equal(await store.getMintProof(ALICE), null);
+    await store.confirmAddress(ALICE, INPUT);
+    await store.confirmAddress(BOB, INPUT);
+    assert.deepEqual(await store.getMintProof(ALICE), { allocation: 3, proof: PROOF, root: "0xroot" });
+    assert.equal(await store.getMintProof(BOB), null);
+  });
+
+  it("consumes a nonce once, only for its address and before it expires", async () => {
+    const store = createMemoryStore();
+    const later = new Date(Date.now() + 60 * 1000);
+    await store.createNonce("n1", ALICE, later);
+    await store.createNonce("n2", ALICE, new Date(Date.now() - 1));
+    assert.equal(await store.consumeNonce("n1", BOB), false);
+    assert.equal(await store.consumeNonce("n1", ALICE), true);
+    assert.equal(await store.consumeNonce("n1", ALICE), false);
+    assert.equal(await store.consumeNonce("n2", ALICE), false);
+  });
+
+  it("replaces a destination and reports whether it changed", async () => {
+    const store = createMemoryStore();
+    assert.equal((await store.setDestination(ALICE, BOB)).changed, true);
+    assert.equal((await store.setDestination(ALICE, BOB)).changed, false);
+    assert.equal((await store.getDestination(ALICE)).destination, BOB);
+  });
+
+  it("stores the destination with the confirmation and moves it on a repeat", async () => {
+    const store = createMemoryStore();
+    const first = await store.confirmAddress(ALICE, INPUT, BOB);
+    assert.equal(first.inserted, true);
+    assert.equal(first.destination?.destination, BOB);
+    assert.equal(first.destinationChanged, true);
+
+    const same = await store.confirmAddress(ALICE, INPUT, BOB);
+    assert.equal(same.inserted, false);
+    assert.equal(same.destinationChanged, false);
+    assert.equal((await store.confirmAddress(ALICE, INPUT)).destination?.destination, BOB);
+
+    const moved = await store.confirmAddress(ALICE, INPUT, ALICE);
+    assert.equal(moved.destinationChanged, true);
+    assert.equal(moved.confirmedAt, first.confirmedAt);
+    assert.equal((await store.getDestination(ALICE)).destination, ALICE);
+  });
+
+  it("creates deliveries for registered endpoints, past events included", async () => {
+    const store = createMemoryStore();
+    await store.confirmAddress(ALICE, INPUT);
+    assert.equal(await store.registerWebhookEndpoints(["hook", "hook"]), 1);
+    assert.equal(await store.registerWebhookEndpoints(["hook"]), 0);
+    await store.revokeConfirmation(ALICE);
+
+    const claimed = await store.claimDeliveries(["hook"], 10, 60 * 1000);
+    assert.deepEqual(
+      claimed.map((delivery) => [delivery.event.type, delivery.attempts]),
+      [
+        ["confirmation.created", 1],
+        ["confirmation.revoked", 1]
+      ]
+    );
+    // Leased, so a second dispatcher gets nothing.
+    assert.deepEqual(await store.claimDeliveries(["hook"], 10, 60 * 1000), []);
+  });
+
+  describe("with a file", () => {
+    let dir;
+    after(() => dir && rm(dir, { recursive: true, force: true }));
+
+    it("writes every mutation back and loads it in a new store", async () => {
+      dir = await mkdtemp(path.join(tmpdir(), "we-store-"));
+      const file = path.join(dir, "store.json");
+      const first = createMemoryStore(file);
+      await first.upsertAllowlistEntries([entry(ALICE, { tiers: ["gtd"] })]);
+      await first.confirmAddress(ALICE, INPUT);
+      await first.close();
+
+      const second = createMemoryStore(file);
+      const status = await second.getAddressStatus(ALICE);
+      assert.deepEqual(status.entry?.tiers, ["gtd"]);
+      assert.equal(status.confirmed, true);
+    });
+
+    it("picks up a write from another store before its own next write", async () => {
+      dir = dir ?? (await mkdtemp(path.join(tmpdir(), "we-store-")));
+      const file = path.join(dir, "shared.json");
+      const server = createMemoryStore(file);
+      await server.createNonce("n1", ALICE, new Date(Date.now() + 60 * 1000));
+
+      const importer = createMemoryStore(file);
+      await importer.upsertAllowlistEntries([entry(BOB)]);
+      await importer.close();
+
+      assert.equal((await server.getAllowlistEntry(BOB))?.allocation, 1);
+      await server.createNonce("n2", ALICE, new Date(Date.now() + 60 * 1000));
+      await server.close();
+
+      const fresh = createMemoryStore(file);
+      assert.equal((await fresh.getAllowlistEntry(BOB))?.allocation, 1);
+      assert.equal(await fresh.consumeNonce("n1", ALICE), true);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { concat, keccak256, numberToHex } from "viem";
+import { buildMerkleTree, hashLeaf, verifyProof } from "../scripts/merkle.mjs";
+
+const ENTRIES = [
+  ["0x1111111111111111111111111111111111111111", 1],
+  ["0x2222222222222222222222222222222222222222", 2],
+  ["0x3333333333333333333333333333333333333333", 3],
+  ["0x4444444444444444444444444444444444444444", 1],
+  ["0x5555555555555555555555555555555555555555", 5]
+];
+
+// OpenZeppelin MerkleProof.processProof, written out independently of scripts/merkle.mjs.
+function processProof(proof, leaf) {
+  return proof.reduce((computed, sibling) => {
+    const [a, b] = BigInt(computed) < BigInt(sibling) ? [computed, sibling] : [sibling, computed];
+    return keccak256(concat([a, b]));
+  }, leaf);
+}
+
+describe("merkle", () => {
+  it("hashes leaves as keccak256(abi.encodePacked(address, uint256))", () => {
+    const [address, allocation] = ENTRIES[1];
+    const packed = concat([address, numberToHex(allocation, { size: 32 })]);
+    assert.equal(hashLeaf(address, allocation), keccak256(packed));
+  });
+
+  it("issues proofs that OpenZeppelin MerkleProof.verify accepts", () => {
+    const tree = buildMerkleTree(ENTRIES);
+    for (const [address, allocation] of ENTRIES) {
+      const { proof, leaf } = tree.proofs.get(address);
+      assert.equal(leaf, hashLeaf(address, allocation));
+      assert.equal(processProof(proof, leaf), tree.root);
+      assert.equal(verifyProof(tree.root, leaf, proof), true);
+    }
+  });
+
+  it("rejects a proof for a different allocation", () => {
+    const tree = buildMerkleTree(ENTRIES);
+    const [address] = ENTRIES[2];
+    assert.equal(verifyProof(tree.root, hashLeaf(address, 4), tree.proofs.get(address).proof), false);
+  });
+
+  it("depends only on the set of entries, not their order", () => {
+    assert.equal(buildMerkleTree([...ENTRIES].reverse()).root, buildMerkleTree(ENTRIES).root);
+  });
+
+  it("uses the leaf as the root of a one-entry tree and zero for an empty one", () => {
+    const [address, allocation] = ENTRIES[0];
+    const single = buildMerkleTree([ENTRIES[0]]);
+    assert.equal(single.root, hashLeaf(address, allocation));
+    assert.deepEqual(single.proofs.get(address).proof, []);
+    assert.equal(buildMerkleTree([]).root, `0x${"0".repeat(64)}`);
+  });
+});
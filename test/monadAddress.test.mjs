@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import confirmHandler from "../api/monad-address.ts";
+import nonceHandler from "../api/monad-nonce.ts";
+import { createMemoryStore } from "../api/_lib/storage/memory.ts";
+import { setStore } from "../api/_lib/storage/index.ts";
+
+const DESTINATION = "0x2222222222222222222222222222222222222222";
+const OTHER_DESTINATION = "0x3333333333333333333333333333333333333333";
+const PROOF = [`0x${"ab".repeat(32)}`];
+
+function createResponse() {
+  return {
+    statusCode: 200,
+    body: undefined,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload) {
+      this.body = payload;
+    },
+    setHeader() {}
+  };
+}
+
+async function call(handler, body) {
+  const res = createResponse();
+  await handler({ method: "POST", headers: { "user-agent": "test" }, body }, res);
+  return res;
+}
+
+/** Runs the nonce route, signs its message with `signer` and posts it to the confirm route. */
+async function confirm(account, { destination, signer = account } = {}) {
+  const address = account.address.toLowerCase();
+  const issued = await call(nonceHandler, { address, ...(destination ? { destination } : {}) });
+  assert.equal(issued.statusCode, 200, JSON.stringify(issued.body));
+  const { message } = issued.body;
+  const signature = await signer.signMessage({ message });
+  return { res: await call(confirmHandler, { address, message, signature, source: "wallet" }), message, signature };
+}
+
+describe("SIWE confirmation", () => {
+  const realDomain = process.env.SIWE_DOMAIN;
+  let store;
+  let listed;
+
+  before(() => {
+    process.env.SIWE_DOMAIN = "woollyeggs.test";
+  });
+
+  after(() => {
+    if (realDomain === undefined) delete process.env.SIWE_DOMAIN;
+    else process.env.SIWE_DOMAIN = realDomain;
+  });
+
+  beforeEach(async () => {
+    store = createMemoryStore();
+    setStore(store);
+    listed = privateKeyToAccount(generatePrivateKey());
+    await store.upsertAllowlistEntries([
+      { address: listed.address.toLowerCase(), allocation: 2, tiers: ["gtd"], merkleProof: PROOF }
+    ]);
+  });
+
+  it("confirms a signed challenge once and stores its destination", async () => {
+    const { res } = await confirm(listed, { destination: DESTINATION });
+    assert.equal(res.statusCode, 200, JSON.stringify(res.body));
+    assert.equal(res.body.allocation, 2);
+    assert.equal(res.body.tier, "gtd");
+    assert.equal(res.body.destination, DESTINATION);
+    assert.equal(await store.isConfirmed(listed.address.toLowerCase()), true);
+
+    const repeat = await confirm(listed, { destination: DESTINATION });
+    assert.equal(repeat.res.statusCode, 409);
+    assert.equal(repeat.res.body.code, "ALREADY_CONFIRMED");
+    assert.equal(repeat.res.body.confirmedAt, res.body.confirmedAt);
+  });
+
+  it("moves an existing confirmation to a newly signed destination", async () => {
+    const first = await confirm(listed, { destination: DESTINATION });
+    const moved = await confirm(listed, { destination: OTHER_DESTINATION });
+    assert.equal(moved.res.statusCode, 200, JSON.stringify(moved.res.body));
+    assert.equal(moved.res.body.destinationUpdated, true);
+    assert.equal(moved.res.body.destination, OTHER_DESTINATION);
+    assert.equal(moved.res.body.confirmedAt, first.res.body.confirmedAt);
+  });
+
+  it("rejects a signature from another wallet and a challenge used twice", async () => {
+    const stranger = privateKeyToAccount(generatePrivateKey());
+    const forged = await confirm(listed, { signer: stranger });
+    assert.equal(forged.res.body.code, "INVALID_SIGNATURE");
+    assert.equal(await store.isConfirmed(listed.address.toLowerCase()), false);
+
+    const { message, signature } = await confirm(listed);
+    const replay = await call(confirmHandler, { address: listed.address.toLowerCase(), message, signature });
+    assert.equal(replay.body.code, "CHALLENGE_EXPIRED");
+  });
+
+  it("answers NOT_ALLOWLISTED only after a valid signature", async () => {
+    const unlisted = privateKeyToAccount(generatePrivateKey());
+    const { res } = await confirm(unlisted);
+    assert.equal(res.statusCode, 403);
+    assert.equal(res.body.code, "NOT_ALLOWLISTED");
+  });
+});
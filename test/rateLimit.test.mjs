@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  checkRateLimits,
+  createMemoryRateLimitStore,
+  STATUS_RATE_LIMITS,
+  VERIFY_RATE_LIMITS
+} from "../api/_lib/rateLimit.ts";
+
+const RULE = { name: "test", limit: 3, windowMs: 60 * 1000 };
+const T0 = 1_700_000_000_000;
+
+describe("checkRateLimits", () => {
+  it("allows up to the limit inside the window and reports when the oldest hit expires", async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i += 1) {
+      assert.deepEqual(await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + i * 1000), { allowed: true });
+    }
+    assert.deepEqual(await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 10 * 1000), {
+      allowed: false,
+      rule: "test",
+      retryAfterSeconds: 50
+    });
+  });
+
+  it("slides the window instead of resetting it", async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i += 1) await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + i * 20 * 1000);
+    const justBefore = await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 59 * 1000);
+    assert.equal(justBefore.allowed, false);
+    const afterFirstExpires = await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 61 * 1000);
+    assert.equal(afterFirstExpires.allowed, true);
+  });
+
+  it("does not count rejected hits, so hammering does not extend the lockout", async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i < 3; i += 1) await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0);
+    for (let i = 1; i <= 20; i += 1) await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + i * 1000);
+    assert.equal((await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 60 * 1000 + 1)).allowed, true);
+  });
+
+  it("withdraws the hit from every rule when a later one denies", async () => {
+    const store = createMemoryRateLimitStore();
+    const tight = { name: "tight", limit: 1, windowMs: 60 * 1000 };
+    const checks = [
+      { rule: RULE, key: "ip" },
+      { rule: tight, key: "address" }
+    ];
+    assert.equal((await checkRateLimits(checks, store, T0)).allowed, true);
+    assert.equal((await checkRateLimits(checks, store, T0 + 1)).rule, "tight");
+    assert.equal((await checkRateLimits(checks, store, T0 + 2)).rule, "tight");
+    // Only the first, allowed attempt was kept against the shared IP rule.
+    assert.equal((await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 3)).allowed, true);
+    assert.equal((await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 4)).allowed, true);
+    assert.equal((await checkRateLimits([{ rule: RULE, key: "ip" }], store, T0 + 5)).allowed, false);
+  });
+
+  it("keeps keys and rules apart", async () => {
+    const store = createMemoryRateLimitStore();
+    const other = { ...RULE, name: "other" };
+    for (let i = 0; i < 3; i += 1) await checkRateLimits([{ rule: RULE, key: "a" }], store, T0);
+    assert.equal((await checkRateLimits([{ rule: RULE, key: "b" }], store, T0)).allowed, true);
+    assert.equal((await checkRateLimits([{ rule: other, key: "a" }], store, T0)).allowed, true);
+  });
+});
+
+describe("rate limit rules", () => {
+  it("gives public lookups their own per-IP bucket, smaller than verification's", () => {
+    assert.notEqual(STATUS_RATE_LIMITS.ip.name, VERIFY_RATE_LIMITS.ip.name);
+    assert.ok(
+      STATUS_RATE_LIMITS.ip.limit / STATUS_RATE_LIMITS.ip.windowMs <
+        VERIFY_RATE_LIMITS.ip.limit / VERIFY_RATE_LIMITS.ip.windowMs
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { once } from "node:events";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createMemoryStore } from "../api/_lib/storage/memory.ts";
+import { setStore } from "../api/_lib/storage/index.ts";
+import { dispatchWebhooks, nextRetryAt, SIGNATURE_HEADER, signWebhook, TIMESTAMP_HEADER } from "../api/_lib/webhooks.ts";
+import { createWebhookReceiver } from "../scripts/webhook_receiver.mjs";
+
+const SECRET = "test-secret";
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+// The wait after each failed attempt, 1 through 7; the 8th failure is final.
+const BACKOFF_S = [30, 60, 120, 240, 480, 960, 1920];
+
+function hmac(secret, timestamp, body) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+describe("webhook signing and backoff", () => {
+  it("signs `<timestamp>.<body>` with HMAC-SHA256", () => {
+    assert.equal(signWebhook(SECRET, "1700000000", '{"id":"1"}'), hmac(SECRET, "1700000000", '{"id":"1"}'));
+  });
+
+  it("doubles from 30s and gives up after the 8th attempt", () => {
+    const now = 1_700_000_000_000;
+    BACKOFF_S.forEach((seconds, index) => {
+      assert.equal(nextRetryAt(index + 1, now)?.getTime(), now + seconds * 1000);
+    });
+    assert.equal(nextRetryAt(8, now), null);
+  });
+});
+
+describe("dispatchWebhooks", () => {
+  const realNow = Date.now;
+  let clock;
+  let store;
+  let server;
+  let requests;
+
+  const startReceiver = async (options) => {
+    server = createWebhookReceiver({ secret: SECRET, log: () => {}, ...options });
+    server.on("request", (req) => {
+      const chunks = [];
+      req.on("data", (chunk) => chunks.push(chunk));
+      req.on("end", () => requests.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf8") }));
+    });
+    server.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const { port } = server.address();
+    process.env.WEBHOOK_ENDPOINTS = JSON.stringify([{ name: "local", url: `http://127.0.0.1:${port}`, secret: SECRET }]);
+  };
+
+  const advance = (seconds) => {
+    clock += seconds * 1000;
+  };
+
+  beforeEach(async () => {
+    clock = realNow() + 1000;
+    Date.now = () => clock;
+    requests = [];
+    store = createMemoryStore();
+    setStore(store);
+    await store.confirmAddress(ADDRESS, { source: "wallet", userAgentHash: null, signature: "0x00" });
+  });
+
+  afterEach(async () => {
+    Date.now = realNow;
+    setStore(null);
+    delete process.env.WEBHOOK_ENDPOINTS;
+    server.close();
+    await once(server, "close");
+  });
+
+  it("posts the event signed over `<timestamp>.<body>`", async () => {
+    await startReceiver({});
+    assert.deepEqual(await dispatchWebhooks(), { delivered: 1, retrying: 0, dead: 0 });
+
+    assert.equal(requests.length, 1);
+    const [{ headers, body }] = requests;
+    assert.equal(headers[TIMESTAMP_HEADER], String(Math.floor(clock / 1000)));
+    assert.equal(headers[SIGNATURE_HEADER], hmac(SECRET, headers[TIMESTAMP_HEADER], body));
+    assert.equal(headers["x-woollyeggs-event"], "confirmation.created");
+    const event = JSON.parse(body);
+    assert.equal(event.id, "1");
+    assert.equal(event.type, "confirmation.created");
+    assert.equal(event.address, ADDRESS);
+    assert.equal(event.data.source, "wallet");
+
+    // Delivered once; nothing is due again.
+    advance(24 * 60 * 60);
+    assert.deepEqual(await dispatchWebhooks(), { delivered: 0, retrying: 0, dead: 0 });
+  });
+
+  it("retries on the backoff schedule, dead-letters after 8 attempts and delivers on replay", async () => {
+    await startReceiver({ failFirst: 8 });
+    assert.deepEqual(await dispatchWebhooks(), { delivered: 0, retrying: 1, dead: 0 });
+
+    for (const [index, seconds] of BACKOFF_S.entries()) {
+      advance(seconds - 1);
+      assert.deepEqual(await dispatchWebhooks(), { delivered: 0, retrying: 0, dead: 0 }, `early retry ${index + 2}`);
+      advance(1);
+      const last = index === BACKOFF_S.length - 1;
+      assert.deepEqual(await dispatchWebhooks(), { delivered: 0, retrying: last ? 0 : 1, dead: last ? 1 : 0 });
+    }
+    assert.equal(requests.length, 8);
+
+    advance(7 * 24 * 60 * 60);
+    assert.deepEqual(await dispatchWebhooks(), { delivered: 0, retrying: 0, dead: 0 });
+
+    assert.equal(await store.replayDeliveries({}), 1);
+    assert.deepEqual(await dispatchWebhooks(), { delivered: 1, retrying: 0, dead: 0 });
+    assert.equal(requests.length, 9);
+    // Every attempt carries the same event.
+    assert.equal(new Set(requests.map((request) => request.headers["x-woollyeggs-delivery"])).size, 1);
+  });
+
+  it("is refused by a receiver holding a different secret", async () => {
+    await startReceiver({ secret: "other-secret" });
+    assert.deepEqual(await dispatchWebhooks(), { delivered: 0, retrying: 1, dead: 0 });
+  });
+});
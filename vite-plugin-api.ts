@@ -0,0 +1,209 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import type { Plugin, ViteDevServer } from "vite";
+
+export type ApiDevOptions = {
+  /** Serve from a fresh in-memory store seeded from `seedFile` instead of the configured database. */
+  memoryStore?: boolean;
+  /** Allowlist lines (`address[,allocation[,tier]]`) loaded into the memory store. Defaults to all.txt. */
+  seedFile?: string;
+};
+
+type Handler = (req: unknown, res: unknown) => Promise<void>;
+
+type SeedEntry = { address: string; allocation: number; tiers: string[]; merkleProof: string[] | null };
+
+type SeedChanges = { upserts: SeedEntry[]; removals: string[]; meta: Record<string, string> };
+
+type SeedStore = { applyAllowlistChanges: (changes: SeedChanges) => Promise<unknown> };
+
+// Modules are loaded through Vite's SSR graph so handlers, the store and the seed share one instance.
+async function load<T>(server: ViteDevServer, file: string): Promise<T> {
+  return (await server.ssrLoadModule(file)) as T;
+}
+
+type MergedLine = { allocation: number; tiers: Set<string> };
+
+type MergeResult = { invalid: unknown[]; checksumInvalid: unknown[] };
+
+/** Parsed and merged by the importer's own code (max allocation, tiers kept), minus the report. */
+async function readSeed(server: ViteDevServer, file: string): Promise<{ entries: SeedEntry[]; root: string }> {
+  const { mergeAllowlistLines } = await load<{
+    mergeAllowlistLines: (
+      merged: Map<string, MergedLine>,
+      content: string,
+      input: { file: string; tier: string }
+    ) => MergeResult;
+  }>(server, "/scripts/import_allowlist.mjs");
+  const { buildMerkleTree } = await load<{
+    buildMerkleTree: (entries: [string, number][]) => { root: string; proofs: Map<string, { proof: string[] }> };
+  }>(server, "/scripts/merkle.mjs");
+  const { sortTiers } = await load<{ sortTiers: (values: readonly unknown[]) => string[] }>(server, "/src/lib/tiers.ts");
+
+  const merged = new Map<string, MergedLine>();
+  const name = path.basename(file);
+  const result = mergeAllowlistLines(merged, await readFile(file, "utf8"), { file: name, tier: "base" });
+  const skipped = result.invalid.length + result.checksumInvalid.length;
+  if (skipped > 0) {
+    server.config.logger.warn(`[api] skipped ${skipped} invalid lines in ${name}`);
+  }
+
+  const tree = buildMerkleTree([...merged.entries()].map(([address, { allocation }]) => [address, allocation]));
+  const entries = [...merged.entries()].map(([address, { allocation, tiers }]) => ({
+    address,
+    allocation,
+    tiers: sortTiers([...tiers]),
+    merkleProof: tree.proofs.get(address)?.proof ?? null
+  }));
+  return { entries, root: tree.root };
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("error", reject);
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw) {
+        resolve(undefined);
+        return;
+      }
+      // Like Vercel: JSON bodies arrive parsed, anything else as the raw string.
+      if ((req.headers["content-type"] ?? "").includes("application/json")) {
+        try {
+          resolve(JSON.parse(raw));
+          return;
+        } catch {
+          // fall through; readJsonBody treats a malformed string as {}
+        }
+      }
+      resolve(raw);
+    });
+  });
+}
+
+function readQuery(params: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    query[key] = values.length === 1 ? values[0] : values;
+  }
+  return query;
+}
+
+/** Wraps Node's response in the `ApiResponse` shape the handlers are written against. */
+function createResponse(res: ServerResponse) {
+  const response = {
+    status(code: number) {
+      res.statusCode = code;
+      return response;
+    },
+    json(payload: unknown) {
+      if (!res.hasHeader("Content-Type")) res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(payload));
+    },
+    setHeader(name: string, value: string) {
+      res.setHeader(name, value);
+    }
+  };
+  return response;
+}
+
+/**
+ * Serves every route in `api/` from the Vite dev server, so `npm run dev` runs the whole
+ * confirm → reveal flow without a deployment. `/api/monad-nonce` maps to `api/monad-nonce.ts`
+ * and `/api/admin/allowlist` to `api/admin/allowlist.ts`; `_lib` is never routed. Handlers
+ * are reloaded when their sources change.
+ */
+export default function apiDevServer(options: ApiDevOptions = {}): Plugin {
+  let ready: Promise<void> | null = null;
+  let seededStore: unknown = null;
+  let storageModule: unknown = null;
+
+  const prepare = async (server: ViteDevServer): Promise<void> => {
+    if (options.memoryStore) {
+      process.env.STORAGE_DRIVER = "memory";
+      delete process.env.STORAGE_FILE;
+    }
+    const { loadEnvLocal } = await load<{ loadEnvLocal: () => Promise<void> }>(server, "/scripts/env.mjs");
+    await loadEnvLocal();
+
+    if (options.memoryStore) {
+      const seedFile = path.resolve(server.config.root, options.seedFile ?? "all.txt");
+      const { createMemoryStore } = await load<{ createMemoryStore: () => SeedStore }>(
+        server,
+        "/api/_lib/storage/memory.ts"
+      );
+      const store = createMemoryStore();
+      const { entries, root } = await readSeed(server, seedFile);
+      await store.applyAllowlistChanges({ upserts: entries, removals: [], meta: { merkle_root: root } });
+      seededStore = store;
+      server.config.logger.info(`[api] memory store: ${entries.length} addresses from ${path.basename(seedFile)}`);
+    }
+  };
+
+  // An edit under api/_lib/storage re-evaluates the storage module and drops its store; hand the
+  // seeded one back so confirmations made so far survive the reload.
+  const restoreStore = async (server: ViteDevServer): Promise<void> => {
+    if (!seededStore) return;
+    const storage = await load<{ setStore: (store: unknown) => void }>(server, "/api/_lib/storage/index.ts");
+    if (storage !== storageModule) {
+      storage.setStore(seededStore);
+      storageModule = storage;
+    }
+  };
+
+  return {
+    name: "woollyeggs-api-dev",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (!url.pathname.startsWith("/api/")) {
+          next();
+          return;
+        }
+
+        const route = url.pathname.slice("/api/".length).replace(/\/$/, "");
+        const file = path.join(server.config.root, "api", `${route}.ts`);
+        const routable = /^[a-z0-9-]+(\/[a-z0-9-]+)*$/i.test(route) && existsSync(file);
+        if (!routable) {
+          res.statusCode = 404;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ ok: false, code: "NOT_FOUND", error: `No API route for ${url.pathname}` }));
+          return;
+        }
+
+        try {
+          // A failed start (say, DATABASE_URL missing) is retried on the next request.
+          ready ??= prepare(server).catch((error: unknown) => {
+            ready = null;
+            throw error;
+          });
+          await ready;
+          await restoreStore(server);
+
+          const { default: handler } = await load<{ default: Handler }>(server, file);
+          const request = {
+            method: req.method,
+            headers: req.headers,
+            body: await readBody(req),
+            query: readQuery(url.searchParams)
+          };
+          await handler(request, createResponse(res));
+        } catch (error) {
+          if (error instanceof Error) server.ssrFixStacktrace(error);
+          server.config.logger.error(`[api] ${url.pathname} failed: ${error instanceof Error ? error.stack : error}`);
+          if (!res.headersSent) {
+            res.statusCode = 500;
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify({ ok: false, code: "INTERNAL", error: "Local API handler failed." }));
+          }
+        }
+      });
+    }
+  };
+}
@@ -1,6 +1,8 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import apiDevServer from "./vite-plugin-api";
 
-export default defineConfig({
-  plugins: [react()]
-});
+export default defineConfig(({ mode }) => ({
+  // `vite --mode memory` (npm run dev:memory) serves the API from an in-memory store seeded from all.txt.
+  plugins: [react(), apiDevServer({ memoryStore: mode === "memory" })]
+}));